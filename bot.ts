@@ -2,30 +2,78 @@
 
 import { 
   apiThrottler, 
+  BaseContext,
   Bot, 
   escapeHtml, 
-  freeStorage, 
+  File,
   InlineKeyboard, 
+  Message,
+  sequentialize,
   session, 
   Update
 } from "./deps.ts";
-import { 
-  isMessageOriginUser, 
-  isMessageOriginHiddenUser, 
-  isMessageOriginChat, 
-  isMessageOriginChannel, 
-  isMessageOriginUnknown 
-} from "./typeGuards.ts";
 import { AnyMessageOrigin } from "./types.ts";
+import { BoundedCache } from "./cache.ts";
+import {
+  fitsInOneMessage,
+  formatCodeBlock,
+  InspectionDelivery,
+  InspectionParts,
+  joinInspection,
+  sendInspection
+} from "./overflow.ts";
+import { PRIVACY_TOGGLES, PrivacyMasker } from "./privacy.ts";
+import {
+  buildReproduction,
+  formatCurlCommand,
+  formatGrammySnippet,
+  getReproductionPayload
+} from "./reproduce.ts";
+import { createStorage, getStorageConfig } from "./storage.ts";
+import { parsePath, PathSegment, queryPath } from "./query.ts";
+import { serializeRaw } from "./serialize.ts";
+import { formatIsoTimestamp, isValidTimezone } from "./timestamps.ts";
+import { formatFileSize } from "./summary.ts";
+import { DecodedFileIdentifier, decodeFileIdentifier, getMediaKey } from "./fileid.ts";
+import { AuthDataCheck, verifyAuthData } from "./webauth.ts";
+import {
+  DOWNLOAD_LIMIT,
+  downloadAndCheckFile,
+  FileCheck,
+  getMessageFile,
+  MessageFile
+} from "./files.ts";
+import {
+  applyImportedSettings,
+  createSettingsExport,
+  describeSettingsChanges,
+  parseSettingsExport
+} from "./transfer.ts";
+import {
+  describeFileIdentifier,
+  formatAuthDataCheck,
+  formatFileCheck,
+  prettifyUpdate
+} from "./formatter.ts";
+import { createMessageUpdate, getReplyChatId, getUpdateAuthor, getUpdateKind, getUpdateMessage } from "./updates.ts";
+import {
+  formatLatency,
+  setChatEnabled,
+  timeStorage,
+  trackApiCalls,
+  trackRunningApiCalls,
+  updatesReceived
+} from "./metrics.ts";
+import { getRecordingConfig, UpdateRecorder } from "./recording.ts";
 import { 
-  applyPrivacyMask,
   ensureCompleteSession,
-  generateExportCommand,
   getDefaultSession,
   getEffectivePreferences,
   getMessageType,
-  importSettings,
+  getOwnViewPreferences,
+  getUserTimezone,
   isUserAdmin,
+  MESSAGE_TYPES,
   MessageType,
   MyContext,
   shouldProcessMessageType,
@@ -44,11 +92,48 @@ if (token === undefined) throw new Error("Env var TOKEN required for bot!");
 // Initialize the bot with the retrieved token and specify our context type
 const bot = new Bot<MyContext>(token);
 
+// Count the Bot API calls the throttler lets through (installed first, so it runs closest to the API)
+bot.api.config.use(trackRunningApiCalls);
+
 // Apply API throttling middleware to prevent hitting rate limits
 const throttler = apiThrottler();
 bot.api.config.use(throttler);
 
-// Initialize the session middleware with free storage provider
+// Count every Bot API call and its result, including those still queued in the throttler
+bot.api.config.use(trackApiCalls);
+
+// Count updates by type before anything else can stop them
+bot.use(async (ctx, next) => {
+  updatesReceived.inc({ type: getUpdateKind(ctx.update) ?? 'unknown' });
+  await next();
+});
+
+// Append every update to the recording file, scrubbed, if RECORD_FILE is set
+const recordingConfig = getRecordingConfig();
+if (recordingConfig) {
+  const recorder = new UpdateRecorder(recordingConfig);
+  bot.use(async (ctx, next) => {
+    recorder.record(ctx.update);
+    await next();
+  });
+}
+
+// Storage backend for sessions
+const storageConfig = getStorageConfig();
+
+/**
+ * Get the key of the session an update belongs to
+ * Updates without a chat (inline queries, poll answers) use the user's private chat
+ */
+function getSessionKey(ctx: BaseContext): string {
+  return (ctx.chat?.id ?? getUpdateAuthor(ctx))?.toString() ?? "default";
+}
+
+// Handle updates of the same session one after another when the runner processes
+// several at once, so session writes don't race (must come before the session middleware)
+bot.use(sequentialize(getSessionKey));
+
+// Initialize the session middleware with the configured storage backend
 bot.use(session({
   initial: () => {
     // Default session without ctx access - you can't use ctx.chat?.type here
@@ -59,16 +144,71 @@ bot.use(session({
     console.log("Session key for chat type:", ctx.chat?.type);
     
     // Return the session key (usually chat ID or from ID)
-    return ctx.chat?.id.toString() ?? "default";
+    return getSessionKey(ctx);
   },
-  storage: freeStorage(bot.token),
+  storage: timeStorage(createStorage(storageConfig, bot.token)),
 }));
 
+// Keep track of the chats with inspection enabled once the update changed what it changes
+bot.use(async (ctx, next) => {
+  await next();
+  setChatEnabled(getSessionKey(ctx), ctx.session.enabled);
+});
+
+/**
+ * Prefix of the start parameter of shared settings links,
+ * also used for the keys of export codes
+ */
+const IMPORT_PREFIX = 'import_';
+
 // Add error handling for entire bot
 bot.catch((err) => {
   console.error("Bot global error:", err);
 });
 
+/**
+ * An inspected update, kept so its inspection can be re-rendered
+ * when the view buttons below it are pressed
+ */
+interface CachedInspection {
+  update: Update;
+  author?: number;
+  forward?: AnyMessageOrigin;
+  dump?: object;
+  previous?: Message;
+  delivery: InspectionDelivery;
+}
+
+// Recent inspections keyed by the chat and message ID of the message carrying the buttons
+const inspectionCache = new BoundedCache<CachedInspection>(1000, 24 * 60 * 60 * 1000);
+
+// Last seen version of recent messages keyed by their chat and message ID, to diff edits against
+const messageVersions = new BoundedCache<Message>(5000, 48 * 60 * 60 * 1000);
+
+// getFile results keyed by file_unique_id, kept for the hour Telegram guarantees the download link
+const fileInfoCache = new BoundedCache<File>(1000, 60 * 60 * 1000);
+
+// Hashes and detected types of downloaded files keyed by file_unique_id, as the content never changes
+const fileCheckCache = new BoundedCache<FileCheck>(500, 24 * 60 * 60 * 1000);
+
+// Export codes keyed by ID, so settings can be shared as a t.me link and confirmed after the preview
+const exportCodes = new BoundedCache<string>(1000, 7 * 24 * 60 * 60 * 1000);
+
+// Text of the /mode settings panel, which shares the view buttons with inspections
+const MODE_PROMPT = "Select your preferred display options:";
+
+// Title of the /privacy settings panel, which shares the privacy buttons with inspections
+const PRIVACY_PANEL_TITLE = "🔒 Privacy Settings";
+
+// Button labels of the raw mode serialization formats, in keyboard order
+const RAW_FORMAT_LABELS: [ViewPreferences['rawFormat'], string][] = [
+  ['json', 'JSON'],
+  ['yaml', 'YAML'],
+  ['compact', 'One Line'],
+  ['flat', 'Paths'],
+  ['pruned', 'Pruned'],
+];
+
 // --------------------
 // Helper Functions
 // --------------------
@@ -77,10 +217,11 @@ bot.catch((err) => {
  * Creates an inline keyboard with view control buttons
  * 
  * @param preferences - Current view preferences
+ * @param file - File of the inspected message, to offer downloading it (optional)
  * @returns Inline keyboard markup
  */
-function createViewControlsKeyboard(preferences: ViewPreferences) {
-  return new InlineKeyboard()
+function createViewControlsKeyboard(preferences: ViewPreferences, file?: MessageFile) {
+  const keyboard = new InlineKeyboard()
     // Display mode buttons
     .text(
       preferences.displayMode === 'compact' ? '✅ Compact' : 'Compact', 
@@ -94,6 +235,18 @@ function createViewControlsKeyboard(preferences: ViewPreferences) {
       preferences.displayMode === 'raw' ? '✅ Raw JSON' : 'Raw JSON', 
       'view_raw'
     )
+    .text(
+      preferences.displayMode === 'types' ? '✅ TS Types' : 'TS Types', 
+      'view_types'
+    )
+    .row();
+  
+  // Serialization formats for raw mode
+  for (const [format, label] of RAW_FORMAT_LABELS) {
+    keyboard.text(preferences.rawFormat === format ? `✅ ${label}` : label, `format_${format}`);
+  }
+  
+  keyboard
     .row()
     // Toggle buttons for specific sections
     .text(
@@ -104,6 +257,28 @@ function createViewControlsKeyboard(preferences: ViewPreferences) {
       preferences.showAuthorInfo ? '✅ Author Info' : '❌ Author Info', 
       'toggle_author'
     )
+    .text(
+      preferences.showKeyboard ? '✅ Keyboard' : '❌ Keyboard',
+      'toggle_keyboard'
+    )
+    .row()
+    .text(
+      preferences.showEntities ? '✅ Entities' : '❌ Entities',
+      'toggle_entities'
+    )
+    .text(
+      preferences.showTimestamps ? '✅ Timestamps' : '❌ Timestamps',
+      'toggle_timestamps'
+    )
+    .row()
+    .text(
+      preferences.showFileDetails ? '✅ File Details' : '❌ File Details',
+      'toggle_files'
+    )
+    .text(
+      preferences.showFileIds ? '✅ File IDs' : '❌ File IDs',
+      'toggle_fileids'
+    )
     .row()
     // Privacy options
     .text(
@@ -113,7 +288,65 @@ function createViewControlsKeyboard(preferences: ViewPreferences) {
     .text(
       preferences.privacyOptions.maskChatIds ? '✅ Mask Chat IDs' : '❌ Mask Chat IDs',
       'privacy_chat_ids'
+    )
+    .row()
+    // Overflow strategy for inspections longer than one message
+    .text(
+      preferences.overflowStrategy !== 'document' ? '✅ Split Long Output' : 'Split Long Output',
+      'overflow_split'
+    )
+    .text(
+      preferences.overflowStrategy === 'document' ? '✅ Long Output as File' : 'Long Output as File',
+      'overflow_document'
     );
+  
+  // Offer to download the file if its details are shown and bots are allowed to download it
+  if (preferences.showFileDetails && file && (file.fileSize ?? 0) <= DOWNLOAD_LIMIT) {
+    keyboard.row().text('⬇️ Download & Hash', 'file_download');
+  }
+  
+  return keyboard;
+}
+
+/**
+ * Creates the /privacy panel text listing every privacy option
+ */
+function createPrivacyText(preferences: ViewPreferences): string {
+  const options = preferences.privacyOptions;
+  const lines = PRIVACY_TOGGLES
+    .filter((toggle) => toggle.option !== 'pseudonymize')
+    .map((toggle) => `- ${toggle.label}: ${options[toggle.option] ? '✅ Masked' : '❌ Visible'}`);
+  
+  return `
+<b>${PRIVACY_PANEL_TITLE}</b>
+
+Configure how sensitive information is displayed:
+
+${lines.join('\n')}
+
+Masked values are ${options.pseudonymize ? 'replaced by stable pseudonyms (e.g. user_1)' : 'hidden'}.
+
+Use the buttons below to toggle settings:
+`;
+}
+
+/**
+ * Creates a keyboard with every privacy option, 2 per row
+ */
+function createPrivacyKeyboard(preferences: ViewPreferences) {
+  const keyboard = new InlineKeyboard();
+  
+  PRIVACY_TOGGLES.forEach((toggle, index) => {
+    const enabled = preferences.privacyOptions[toggle.option];
+    const label = toggle.option === 'pseudonymize' ? `Use ${toggle.label}` : `Mask ${toggle.label}`;
+    keyboard.text(enabled ? `✅ ${label}` : `❌ ${label}`, `privacy_${toggle.callback}`);
+    
+    if (index % 2 === 1) {
+      keyboard.row();
+    }
+  });
+  
+  return keyboard;
 }
 
 /**
@@ -132,17 +365,14 @@ function createMessageFiltersKeyboard(session: MyContext['session']) {
     .row();
   
   // Create rows of message type toggles
-  const messageTypes: MessageType[] = [
-    'text', 'photo', 'video', 'document', 'audio', 'sticker', 
-    'animation', 'voice', 'poll', 'location', 'contact', 'forward'
-  ];
+  const messageTypes = MESSAGE_TYPES;
   
   // Add 3 types per row
   for (let i = 0; i < messageTypes.length; i += 3) {
     const row = messageTypes.slice(i, i + 3);
     for (const type of row) {
       keyboard.text(
-        filters.enabledTypes[type] ? `✅ ${capitalize(type)}` : `❌ ${capitalize(type)}`,
+        filters.enabledTypes[type] ? `✅ ${formatMessageType(type)}` : `❌ ${formatMessageType(type)}`,
         `filter_${type}`
       );
     }
@@ -195,151 +425,301 @@ function capitalize(str: string): string {
 }
 
 /**
- * Formats the update information into an HTML string for replying.
- *
- * @param update - The raw update object from Telegram.
- * @param preferences - View preferences for formatting
- * @param author - The ID of the message author (optional).
- * @param forward - The forward origin object (optional).
- * @returns A formatted HTML string containing update details.
+ * Formats a message type for display, e.g. 'channel_post' as 'Channel post'
+ */
+function formatMessageType(type: string): string {
+  return capitalize(type.replace(/_/g, ' '));
+}
+
+/**
+ * Get the file of the message an update carries, if it has one
+ */
+function getInspectedFile(update: Update): MessageFile | undefined {
+  const message = getUpdateMessage(update);
+  return message && getMessageFile(message);
+}
+
+/**
+ * Looks up a file with getFile, which goes through the throttler like every API call,
+ * reusing the result while its download link is valid
  */
-function prettifyUpdate(
-  update: Update, // Replace 'any' with 'Update' type
+async function lookupFile(ctx: MyContext, file: MessageFile): Promise<File> {
+  const cached = fileInfoCache.get(file.fileUniqueId);
+  if (cached) {
+    return cached;
+  }
+  
+  const info = await ctx.api.getFile(file.fileId);
+  fileInfoCache.set(file.fileUniqueId, info);
+  return info;
+}
+
+/**
+ * Formats the getFile details of a file as an HTML section
+ */
+async function formatFileDetails(ctx: MyContext, file: MessageFile): Promise<string> {
+  let fileText = `<b>📁 FILE DETAILS</b>\n`;
+  fileText += `<b>File:</b> ${file.kind}${file.variant ? ` (${file.variant})` : ""}\n`;
+  
+  let size = file.fileSize;
+  try {
+    const info = await lookupFile(ctx, file);
+    size = info.file_size ?? size;
+    fileText += `<b>file_path:</b> <code>${escapeHtml(info.file_path ?? 'none')}</code>\n`;
+  } catch (error) {
+    // getFile fails for files above the download limit
+    fileText += `<b>getFile:</b> ⚠️ ${escapeHtml((error as Error).message)}\n`;
+  }
+  
+  if (size !== undefined) {
+    fileText += `<b>file_size:</b> ${formatFileSize(size)} (${size} bytes)\n`;
+    fileText += size > DOWNLOAD_LIMIT
+      ? `<b>Download:</b> ⚠️ above the ${formatFileSize(DOWNLOAD_LIMIT)} Bot API limit, bots can't download it\n`
+      : `<b>Download:</b> ✅ within the ${formatFileSize(DOWNLOAD_LIMIT)} Bot API limit\n`;
+  }
+  
+  return fileText + "\n";
+}
+
+/**
+ * Maximum length of web_app_data shown when it isn't authentication data
+ */
+const MAX_SHOWN_WEB_APP_DATA = 1000;
+
+/**
+ * Formats the data a Mini App sent with sendData as an HTML section,
+ * verifying it if it is initData or Login Widget data
+ */
+async function formatWebAppData(
+  data: { data: string; button_text: string },
   preferences: ViewPreferences,
-  author?: number,
-  forward?: AnyMessageOrigin
-): string {
-  let forwardText = "";
-  let authorText = "";
-  let updateText = "";
-  let result = "";
-
-  // Format forward information if available and enabled
-  if (forward && preferences.showForwardInfo) {
-    forwardText = "<b>📨 FORWARDED MESSAGE</b>\n";
-    
-    if (isMessageOriginUser(forward)) {
-      const sender = forward.sender_user;
-      forwardText += `<b>From User:</b>\nName: ${escapeHtml(
-        sender.first_name
-      )} ${escapeHtml(sender.last_name || "")}\nID: <code>${sender.id}</code>\n\n`;
-    } else if (isMessageOriginHiddenUser(forward)) {
-      forwardText += `<b>From Hidden User:</b>\nName: ${escapeHtml(
-        forward.sender_user_name
-      )}\n\n`;
-    } else if (isMessageOriginChat(forward)) {
-      forwardText += `<b>From Chat:</b>\nTitle: ${escapeHtml(
-        forward.sender_chat.title ?? "No Chat Title"
-      )}\nID: <code>${forward.sender_chat.id}</code>\n`;
-      if (forward.author_signature) {
-        forwardText += `Author Signature: ${escapeHtml(
-          forward.author_signature
-        )}\n\n`;
-      } else {
-        forwardText += `\n`;
-      }
-    } else if (isMessageOriginChannel(forward)) {
-      forwardText += `<b>From Channel:</b>\nTitle: ${escapeHtml(
-        forward.chat.title
-      )}\nID: <code>${forward.chat.id}</code>\nOriginal Message ID: <code>${
-        forward.message_id
-      }</code>\n`;
-      if (forward.author_signature) {
-        forwardText += `Author Signature: ${escapeHtml(
-          forward.author_signature
-        )}\n\n`;
-      } else {
-        forwardText += `\n`;
-      }
-    } else if (isMessageOriginUnknown(forward)) {
-      forwardText += `<b>From Unknown Origin Type:</b> ${escapeHtml(
-        forward.type
-      )}\n\n`;
-    } else {
-      // This block is theoretically unreachable but added for exhaustive type checking
-      forwardText += `<b>From an unrecognized origin.</b>\n\n`;
-    }
+  timeZone: string
+): Promise<string> {
+  const webAppText = `<b>📲 WEB APP DATA</b>\n<b>Button:</b> ${escapeHtml(data.button_text)}\n\n`;
+  
+  try {
+    const check = await verifyAuthData(data.data, bot.token);
+    const fields = new PrivacyMasker(preferences.privacyOptions).mask(check.fields);
+    return webAppText + formatAuthDataCheck(check, timeZone) +
+      formatCodeBlock(JSON.stringify(fields, null, 2).slice(0, MAX_SHOWN_WEB_APP_DATA)) + "\n\n";
+  } catch {
+    // Not authentication data, show it as JSON or text
   }
+  
+  let shown = data.data;
+  try {
+    shown = JSON.stringify(JSON.parse(data.data), null, 2);
+  } catch {
+    // Plain text
+  }
+  if (shown.length > MAX_SHOWN_WEB_APP_DATA) {
+    shown = `${shown.slice(0, MAX_SHOWN_WEB_APP_DATA)}…`;
+  }
+  
+  return webAppText + formatCodeBlock(shown, 'text') + "\n\n";
+}
 
-  // Add author information if available and enabled
-  if (author && preferences.showAuthorInfo) {
-    authorText = `<b>👤 AUTHOR</b>\n<b>ID:</b> <code>${author}</code>\n\n`;
+/**
+ * Adds the sections that need API calls or hashing: the file details if enabled
+ * and the message has a file, and the verified data of web_app_data messages
+ */
+async function addAsyncSections(
+  ctx: MyContext,
+  parts: InspectionParts,
+  update: Update,
+  preferences: ViewPreferences,
+  timeZone = 'UTC'
+): Promise<InspectionParts> {
+  let header = parts.header;
+  
+  const file = getInspectedFile(update);
+  if (preferences.showFileDetails && file) {
+    header += await formatFileDetails(ctx, file);
+  }
+  
+  const webAppData = getUpdateMessage(update)?.web_app_data;
+  if (webAppData) {
+    header += await formatWebAppData(webAppData, preferences, timeZone);
   }
+  
+  return { ...parts, header };
+}
 
-  // Add compact information for compact mode
-  if (preferences.displayMode === 'compact') {
-    // Add message type and ID
-    const messageType = update.message?.text ? 'Text' : 
-                       update.message?.photo ? 'Photo' : 
-                       update.message?.video ? 'Video' : 
-                       update.message?.document ? 'Document' : 
-                       update.message?.sticker ? 'Sticker' : 'Other';
-    
-    updateText = `<b>📝 MESSAGE INFO</b>\n`;
-    updateText += `<b>Type:</b> ${messageType}\n`;
-    
-    if (update.message?.text) {
-      updateText += `<b>Content:</b> <code>${escapeHtml(update.message.text.substring(0, 100))}</code>${update.message.text.length > 100 ? '...' : ''}\n`;
-    }
-    
-    if (update.message?.message_id) {
-      updateText += `<b>Message ID:</b> <code>${update.message.message_id}</code>\n`;
+/**
+ * Formats an update with prettifyUpdate, recording how long formatting took
+ */
+function formatInspection(...args: Parameters<typeof prettifyUpdate>): InspectionParts {
+  const started = performance.now();
+  const parts = prettifyUpdate(...args);
+  formatLatency.observe((performance.now() - started) / 1000);
+  return parts;
+}
+
+/**
+ * Builds the key of a message in the inspection and message version caches
+ */
+function messageKey(chatId: number, messageId: number): string {
+  return `${chatId}:${messageId}`;
+}
+
+/**
+ * Checks whether a message is a settings panel rather than an inspection
+ */
+function isSettingsPanel(message: { text?: string }): boolean {
+  return message.text === MODE_PROMPT || !!message.text?.startsWith(PRIVACY_PANEL_TITLE);
+}
+
+/**
+ * Re-renders the inspection a view button was pressed on with the current preferences.
+ * Inspections that can't be edited in place (split, sent as a file or now too long)
+ * are sent again. If the update is no longer cached only the buttons are updated.
+ *
+ * @param ctx - Context of the callback query
+ * @returns Note to append to the callback answer, empty if nothing needs explaining
+ */
+async function refreshInspection(ctx: MyContext): Promise<string> {
+  const message = ctx.callbackQuery?.message;
+  if (!message) {
+    return "";
+  }
+  
+  const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
+  const key = messageKey(message.chat.id, message.message_id);
+  const cached = inspectionCache.get(key);
+  const keyboard = createViewControlsKeyboard(preferences, cached && getInspectedFile(cached.update));
+  
+  try {
+    // Degrade to updating the buttons if the update has expired
+    if (!cached) {
+      await ctx.editMessageReplyMarkup({ reply_markup: keyboard });
+      return isSettingsPanel(message)
+        ? ""
+        : " (original update expired, only new messages will use it)";
     }
     
-    updateText += `<b>Chat ID:</b> <code>${update.message?.chat?.id || 'Unknown'}</code>\n\n`;
-  }
-
-  // Add full information for full mode
-  if (preferences.displayMode === 'full') {
-    // First add the compact info
-    const messageType = update.message?.text ? 'Text' : 
-                      update.message?.photo ? 'Photo' : 
-                      update.message?.video ? 'Video' : 
-                      update.message?.document ? 'Document' : 
-                      update.message?.sticker ? 'Sticker' : 'Other';
-   
-    updateText = `<b>📝 DETAILED MESSAGE INFO</b>\n`;
-    updateText += `<b>Type:</b> ${messageType}\n`;
-    
-    if (update.message?.text) {
-      updateText += `<b>Content:</b> <code>${escapeHtml(update.message.text.substring(0, 100))}</code>${update.message.text.length > 100 ? '...' : ''}\n`;
-    }
+    const timeZone = getUserTimezone(ctx.session, ctx.from?.id);
+    const parts = await addAsyncSections(ctx, formatInspection(
+      cached.update,
+      preferences,
+      cached.author,
+      cached.forward,
+      cached.dump,
+      cached.previous,
+      timeZone
+    ), cached.update, preferences, timeZone);
     
-    if (update.message?.message_id) {
-      updateText += `<b>Message ID:</b> <code>${update.message.message_id}</code>\n`;
+    // Edit the inspection in place when it still is a single message
+    if (cached.delivery === 'single' && fitsInOneMessage(parts)) {
+      await ctx.editMessageText(joinInspection(parts), {
+        parse_mode: "HTML",
+        reply_markup: keyboard
+      });
+      return "";
     }
     
-    updateText += `<b>Chat ID:</b> <code>${update.message?.chat?.id || 'Unknown'}</code>\n\n`;
-    
-    // Then add the raw JSON too
-    updateText += `<b>🔄 RAW UPDATE</b>\n<pre><code class="language-json">${escapeHtml(
-      JSON.stringify(update, null, 2)
-    )}</code></pre>`;
+    // Otherwise retire the old buttons and send the new view
+    await ctx.editMessageReplyMarkup({ reply_markup: { inline_keyboard: [] } });
+    inspectionCache.delete(key);
+    await sendAndCacheInspection(ctx, message.chat.id, parts, preferences, keyboard, cached);
+  } catch (error) {
+    console.error("Error updating message:", error);
   }
+  
+  return "";
+}
 
-  // Add raw update JSON for raw mode
-  if (preferences.displayMode === 'raw') {
-    updateText = `<b>🔄 RAW UPDATE</b>\n<pre><code class="language-json">${escapeHtml(
-      JSON.stringify(update, null, 2)
-    )}</code></pre>`;
-  }
+/**
+ * Sends an inspection and caches its update for re-rendering
+ */
+async function sendAndCacheInspection(
+  ctx: MyContext,
+  chatId: number,
+  parts: InspectionParts,
+  preferences: ViewPreferences,
+  keyboard: InlineKeyboard,
+  inspected: Omit<CachedInspection, 'delivery'>
+): Promise<Message> {
+  const sent = await sendInspection(ctx, chatId, parts, preferences, keyboard);
+  
+  inspectionCache.set(messageKey(chatId, sent.message.message_id), {
+    update: inspected.update,
+    author: inspected.author,
+    forward: inspected.forward,
+    dump: inspected.dump,
+    previous: inspected.previous,
+    delivery: sent.delivery
+  });
+  
+  return sent.message;
+}
 
-  // Combine all sections
-  result = forwardText + authorText + updateText;
+/**
+ * Sends the export code of the chat's settings, together with a link to share them
+ *
+ * @param includeUsers - Whether to include the per-user preferences
+ */
+async function replyWithExport(ctx: MyContext, includeUsers: boolean) {
+  const { code, id } = await createSettingsExport(ctx.session, includeUsers);
   
-  // Apply privacy masks if needed (with safety check for undefined privacyOptions)
-  result = applyPrivacyMask(result, preferences.privacyOptions || {
-    maskUserIds: false,
-    maskPhoneNumbers: true,
-    maskChatIds: false
-  });
+  let exportText = "<b>📤 Export Settings</b>\n\n" +
+    "Copy the command below and use it in any chat with this bot to import these settings:\n\n" +
+    `<code>/import ${code}</code>`;
+  
+  // Keep the code under its ID so it can be imported through a short link
+  exportCodes.set(`${IMPORT_PREFIX}${id}`, code);
+  exportText += "\n\nOr share this link to import them in a private chat with the bot:\n" +
+    `https://t.me/${ctx.me.username}?start=${IMPORT_PREFIX}${id}\n` +
+    "<i>The link may stop working at any time, e.g. when the bot restarts. The /import command above always works.</i>";
   
-  // Add help text for compact mode
-  if (preferences.displayMode === 'compact') {
-    result += `\n<i>Use the buttons below to customize the view.</i>`;
+  if (!includeUsers && ctx.session.usePerUserPreferences) {
+    exportText += "\n\nUse /export users to include the per-user preferences.";
   }
+  
+  await ctx.reply(exportText, {
+    parse_mode: "HTML"
+  });
+}
 
-  return result;
+/**
+ * Validates an export code and shows what importing it would change,
+ * with buttons to apply or cancel the import
+ */
+async function previewImport(ctx: MyContext, code: string) {
+  const result = await parseSettingsExport(code);
+  
+  if (!result.ok) {
+    return ctx.reply(
+      "❌ <b>Invalid import code</b>\n\n" +
+      result.errors.map((error) => `• ${escapeHtml(error)}`).join("\n"),
+      { parse_mode: "HTML" }
+    );
+  }
+  
+  const changes = describeSettingsChanges(
+    ctx.session,
+    applyImportedSettings(ctx.session, result.settings)
+  );
+  
+  if (changes.length === 0) {
+    return ctx.reply("✅ These settings are already in use, there is nothing to import.");
+  }
+  
+  // Keep the code until the import is confirmed
+  exportCodes.set(`${IMPORT_PREFIX}${result.id}`, code);
+  
+  const keyboard = new InlineKeyboard()
+    .text("✅ Apply", `import_apply_${result.id}`)
+    .text("❌ Cancel", "import_cancel");
+  
+  await ctx.reply(
+    "<b>📥 Import Settings</b>\n\n" +
+    "Importing will change:\n" +
+    changes.map((change) => `• <code>${escapeHtml(change)}</code>`).join("\n"),
+    {
+      parse_mode: "HTML",
+      reply_markup: keyboard
+    }
+  );
 }
 
 /**
@@ -383,7 +763,7 @@ async function handleBotAdded(ctx: MyContext) {
 // --------------------
 
 // Handle new chat member events
-bot.on(["chat_member", "my_chat_member"], async (ctx) => {
+bot.on(["chat_member", "my_chat_member"], async (ctx, next) => {
   // For chat_member updates
   if ("chat_member" in ctx.update && ctx.update.chat_member) {
     const member = ctx.update.chat_member.new_chat_member;
@@ -403,9 +783,12 @@ bot.on(["chat_member", "my_chat_member"], async (ctx) => {
     
     if (isBot && isAdded) {
       // Bot was added to a chat
-      await handleBotAdded(ctx);
+      return await handleBotAdded(ctx);
     }
   }
+  
+  // Any other membership change is inspected like every other update
+  await next();
 });
 
 // --------------------
@@ -417,6 +800,17 @@ bot.command("start", async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
+  // Shared settings links start the bot with an import_<id> payload
+  if (ctx.match.startsWith(IMPORT_PREFIX)) {
+    const code = exportCodes.get(ctx.match);
+    
+    if (!code) {
+      return ctx.reply("❌ This settings link is invalid or no longer available. Ask for the /import command from /export instead.");
+    }
+    
+    return previewImport(ctx, code);
+  }
+  
   const startText = `
 <b>👋 Welcome to Message Inspector Bot!</b>
 
@@ -450,19 +844,30 @@ bot.command("help", async (ctx) => {
 
 /help - Show this help message
 /toggle - Enable/disable bot in groups (admin only)
-/mode - Change display mode (compact/full/raw)
+/mode - Change display mode (compact/full/raw/types)
 /filter - Set message types to respond to
 /privacy - Configure privacy options
 /userprefs - Configure per-user preferences
 /admin - Access admin control panel (admin only)
-/export - Export your current settings
-/import - Import settings (format: /import [code])
+/export - Export your current settings (/export users includes per-user preferences)
+/import - Preview and import settings (format: /import [code])
+/inspect - Reply to any message to inspect it without forwarding
+/reproduce - Reply to a message to get the code that sends it again
+/get - Reply to a message to extract one value (format: /get message.photo[-1].file_id)
+/pathfilter - Limit raw mode to some paths (format: /pathfilter [path ...|off])
+/rawformat - Choose how raw mode serializes updates (format: /rawformat [json|yaml|compact|flat|pruned] [array limit])
+/timezone - Set the time zone timestamps are shown in (format: /timezone [Area/City|reset])
+/fileid - Decode a file_id or file_unique_id offline (format: /fileid [id] [other id], or reply to media)
+/checkauth - Verify Mini App initData or Login Widget data against this bot's token (format: /checkauth [data])
 
 <b>Features:</b>
 - Shows details about any message you send
+- Inspects every update type (edits, channel posts, callback and inline queries, reactions, join requests, business messages)
 - Analyzes forwarded messages with interactive buttons
 - Customize which message types trigger responses
 - Privacy options to mask sensitive data
+- Inline keyboard inspector with decoded callback_data
+- File details for media (getFile path and size, download with SHA-256 and type check)
 - Per-user preference settings
 - Export/import settings across chats
 
@@ -510,7 +915,7 @@ bot.command("mode", async (ctx) => {
   // Create a keyboard for mode selection
   const keyboard = createViewControlsKeyboard(preferences);
   
-  await ctx.reply("Select your preferred display options:", {
+  await ctx.reply(MODE_PROMPT, {
     reply_markup: keyboard
   });
 });
@@ -525,7 +930,7 @@ bot.command("filter", async (ctx) => {
   
   const messageList = Object.entries(ctx.session.messageFilters.enabledTypes)
     .filter(([_, enabled]) => enabled)
-    .map(([type]) => capitalize(type))
+    .map(([type]) => formatMessageType(type))
     .join(", ");
   
   const filterText = ctx.session.messageFilters.respondToAll
@@ -545,29 +950,10 @@ bot.command("privacy", async (ctx) => {
   // Get effective preferences for the user
   const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
   
-  const privacyText = `
-<b>🔒 Privacy Settings</b>
-
-Configure how sensitive information is displayed:
-
-- User IDs: ${preferences.privacyOptions.maskUserIds ? '✅ Masked' : '❌ Visible'}
-- Chat IDs: ${preferences.privacyOptions.maskChatIds ? '✅ Masked' : '❌ Visible'}
-- Phone Numbers: Always Masked
-
-Use the buttons below to toggle settings:
-`;
+  const privacyText = createPrivacyText(preferences);
   
   // Create a keyboard with only privacy options
-  const keyboard = new InlineKeyboard()
-    .text(
-      preferences.privacyOptions.maskUserIds ? '✅ Mask User IDs' : '❌ Mask User IDs',
-      'privacy_user_ids'
-    )
-    .row()
-    .text(
-      preferences.privacyOptions.maskChatIds ? '✅ Mask Chat IDs' : '❌ Mask Chat IDs',
-      'privacy_chat_ids'
-    );
+  const keyboard = createPrivacyKeyboard(preferences);
   
   await ctx.reply(privacyText, {
     parse_mode: "HTML",
@@ -635,16 +1021,7 @@ bot.command("export", async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
-  const exportCommand = generateExportCommand(ctx.session);
-  
-  await ctx.reply(
-    "<b>📤 Export Settings</b>\n\n" +
-    "Copy the command below and use it in any chat with this bot to import these settings:\n\n" +
-    `<code>${exportCommand}</code>`,
-    {
-      parse_mode: "HTML"
-    }
-  );
+  await replyWithExport(ctx, ctx.match.trim() === 'users');
 });
 
 // Import command
@@ -661,27 +1038,387 @@ bot.command("import", async (ctx) => {
     );
   }
   
-  const importCode = args[1];
-  const importedSettings = importSettings(importCode);
+  // Nothing is applied until the preview is confirmed
+  await previewImport(ctx, args[1]);
+});
+
+// Inspect command, used as a reply to any message
+bot.command("inspect", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const replied = ctx.message?.reply_to_message;
+  const externalReply = ctx.message?.external_reply;
+  const quote = ctx.message?.quote;
   
-  if (!importedSettings) {
-    return ctx.reply("❌ Invalid import code. Please check and try again.");
+  if (!replied && !externalReply) {
+    return ctx.reply(
+      "⚠️ Reply to a message with /inspect to see its details.\n\n" +
+      "Replies to messages from other chats and quotes work too."
+    );
   }
   
-  // Apply the imported settings
-  if (importedSettings.viewPreferences) {
-    ctx.session.viewPreferences = importedSettings.viewPreferences;
+  // Inspect the replied-to message as if it had just been sent,
+  // keeping its original author and forward origin
+  const update: Update = replied
+    ? createMessageUpdate(ctx.update.update_id, replied)
+    : { update_id: ctx.update.update_id };
+  const author = replied?.from?.id;
+  const forwardOrigin = (replied?.forward_origin ?? externalReply?.origin) as AnyMessageOrigin | undefined;
+  
+  // The raw dump shows everything the reply refers to
+  const dump = {
+    reply_to_message: replied,
+    external_reply: externalReply,
+    quote
+  };
+  
+  const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
+  const timeZone = getUserTimezone(ctx.session, ctx.from?.id);
+  const parts = await addAsyncSections(
+    ctx,
+    formatInspection(update, preferences, author, forwardOrigin, dump, undefined, timeZone),
+    update,
+    preferences,
+    timeZone
+  );
+  const keyboard = createViewControlsKeyboard(preferences, getInspectedFile(update));
+  
+  await sendAndCacheInspection(ctx, ctx.chat.id, parts, preferences, keyboard, {
+    update,
+    author,
+    forward: forwardOrigin,
+    dump
+  });
+});
+
+// Reproduce command, used as a reply to any message or inspection
+bot.command("reproduce", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const replied = ctx.message?.reply_to_message;
+  
+  if (!replied) {
+    return ctx.reply(
+      "⚠️ Reply to a message with /reproduce to get the code that sends it again.\n\n" +
+      "Use /reproduce markdown to rebuild the text as MarkdownV2 instead of HTML."
+    );
+  }
+  
+  // Replies to an inspection reproduce the inspected message
+  const cached = inspectionCache.get(messageKey(ctx.chat.id, replied.message_id));
+  const target = (cached && getUpdateMessage(cached.update)) ?? replied;
+  
+  // Mask sensitive fields like everywhere else
+  const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
+  const message = new PrivacyMasker(preferences.privacyOptions).mask(target as Message);
+  
+  const format = ctx.match.trim().toLowerCase().startsWith('markdown') ? 'markdownv2' : 'html';
+  const reproduction = buildReproduction(message, format);
+  
+  if (!reproduction) {
+    return ctx.reply("⚠️ This kind of message can't be sent by a bot, so it can't be reproduced.");
+  }
+  
+  // Each variant is sent on its own, so long ones can be split or sent as a file
+  const variants: InspectionParts[] = [
+    {
+      header: `<b>🔁 REPRODUCE</b>\n<b>Method:</b> <code>${reproduction.method}</code>\n\n`,
+      payloadTitle: "<b>grammY</b>",
+      payload: formatGrammySnippet(reproduction),
+      payloadLanguage: 'typescript',
+      footer: ""
+    },
+    {
+      header: "",
+      payloadTitle: "<b>Bot API payload</b>",
+      payload: JSON.stringify(getReproductionPayload(reproduction), null, 2),
+      footer: ""
+    },
+    {
+      header: "",
+      payloadTitle: "<b>curl</b>",
+      payload: formatCurlCommand(reproduction),
+      payloadLanguage: 'bash',
+      footer: ""
+    }
+  ];
+  
+  for (const parts of variants) {
+    await sendInspection(ctx, ctx.chat.id, parts, preferences);
+  }
+});
+
+// Get command, extracts values from the replied message or inspection by path
+bot.command("get", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const replied = ctx.message?.reply_to_message;
+  const path = ctx.match.trim();
+  
+  if (!replied || !path) {
+    return ctx.reply(
+      "⚠️ Reply to a message with /get <path> to extract a value, for example:\n\n" +
+      "/get message.forward_origin.chat.id\n" +
+      "/get message.photo[-1].file_id\n" +
+      "/get message.entities[*].type"
+    );
+  }
+  
+  let segments: PathSegment[];
+  try {
+    segments = parsePath(path);
+  } catch (error) {
+    return ctx.reply(`⚠️ Invalid path: ${(error as Error).message}`);
+  }
+  
+  // Replies to an inspection query the inspected update
+  const cached = inspectionCache.get(messageKey(ctx.chat.id, replied.message_id));
+  const update: Update = cached?.update ?? createMessageUpdate(ctx.update.update_id, replied);
+  
+  // Mask the whole update first, so pseudonyms match the ones in inspections
+  const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
+  const masked = new PrivacyMasker(preferences.privacyOptions).mask(update);
+  
+  const matches = queryPath(masked, segments);
+  if (matches.length === 0) {
+    return ctx.reply(`Nothing found at <code>${escapeHtml(path)}</code>.`, {
+      parse_mode: "HTML"
+    });
+  }
+  
+  // A single value is shown as is, several are keyed by their concrete paths
+  const result = matches.length === 1
+    ? matches[0].value
+    : Object.fromEntries(matches.map((match) => [match.path, match.value]));
+  
+  await sendInspection(ctx, ctx.chat.id, {
+    header: "",
+    payloadTitle: `<b>📍 ${escapeHtml(matches.length === 1 ? matches[0].path : path)}</b>` +
+      (matches.length > 1 ? ` <i>(${matches.length} matches)</i>` : ""),
+    payload: JSON.stringify(result, null, 2),
+    footer: ""
+  }, preferences);
+});
+
+// Path filter command, limits raw mode to the listed paths
+bot.command("pathfilter", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+  
+  // Without arguments, show the current filter
+  if (args.length === 0) {
+    const { pathFilter } = getEffectivePreferences(ctx.session, ctx.from?.id);
+    const current = pathFilter.length > 0
+      ? pathFilter.map((path) => `<code>${escapeHtml(path)}</code>`).join("\n")
+      : "<i>none, raw mode shows the whole update</i>";
+    
+    return ctx.reply(
+      `<b>🧭 Path Filter</b>\n\n${current}\n\n` +
+      "Set it with /pathfilter message.text message.entities[*].type, clear it with /pathfilter off.",
+      { parse_mode: "HTML" }
+    );
+  }
+  
+  // Validate every path before saving any of them
+  const pathFilter = args.length === 1 && args[0].toLowerCase() === 'off' ? [] : args;
+  for (const path of pathFilter) {
+    try {
+      parsePath(path);
+    } catch (error) {
+      return ctx.reply(`⚠️ Invalid path ${path}: ${(error as Error).message}`);
+    }
+  }
+  
+  // Update preferences in the appropriate place
+  if (ctx.session.usePerUserPreferences && ctx.from) {
+    getOwnViewPreferences(ctx.session, ctx.from.id).pathFilter = pathFilter;
+  } else {
+    ctx.session.viewPreferences.pathFilter = pathFilter;
+  }
+  
+  await ctx.reply(
+    pathFilter.length > 0
+      ? `✅ Raw mode now only shows: ${pathFilter.join(", ")}`
+      : "✅ Path filter cleared, raw mode shows the whole update."
+  );
+});
+
+// Raw format command, sets the raw mode format and the array limit of the pruned format
+bot.command("rawformat", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const [formatArg, limitArg] = ctx.match.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const formats = RAW_FORMAT_LABELS.map(([format]) => format);
+  
+  // Without arguments, show the current format
+  if (!formatArg) {
+    const { rawFormat, pruneArrayLimit } = getEffectivePreferences(ctx.session, ctx.from?.id);
+    return ctx.reply(
+      `<b>🗂 Raw Format</b>\n\nCurrent format: <code>${rawFormat}</code>\n` +
+      `Arrays collapse after: <code>${pruneArrayLimit}</code> elements (pruned format)\n\n` +
+      `Change it with /rawformat ${formats.join("|")} [array limit], or with the buttons below an inspection.`,
+      { parse_mode: "HTML" }
+    );
+  }
+  
+  const format = formatArg as ViewPreferences['rawFormat'];
+  if (!formats.includes(format)) {
+    return ctx.reply(`⚠️ Unknown format ${formatArg}. Choose one of: ${formats.join(", ")}`);
+  }
+  
+  const limit = limitArg === undefined ? undefined : Number(limitArg);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 100)) {
+    return ctx.reply("⚠️ The array limit must be a whole number from 1 to 100.");
+  }
+  
+  // Get the right preferences object to update
+  let preferences: ViewPreferences;
+  if (ctx.session.usePerUserPreferences && ctx.from) {
+    preferences = getOwnViewPreferences(ctx.session, ctx.from.id);
+  } else {
+    preferences = ctx.session.viewPreferences;
+  }
+  
+  preferences.rawFormat = format;
+  if (limit !== undefined) {
+    preferences.pruneArrayLimit = limit;
+  }
+  
+  await ctx.reply(
+    `✅ Raw mode now uses the ${format} format` +
+    (limit !== undefined ? `, collapsing arrays after ${limit} elements.` : ".")
+  );
+});
+
+// Timezone command, sets the time zone the user's timestamps are shown in
+bot.command("timezone", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  if (!ctx.from) {
+    return ctx.reply("⚠️ The time zone is stored per user, so it can't be set here.");
   }
   
-  if (importedSettings.messageFilters) {
-    ctx.session.messageFilters = importedSettings.messageFilters;
+  const timeZone = ctx.match.trim();
+  
+  // Without arguments, show the current time zone
+  if (!timeZone) {
+    const current = getUserTimezone(ctx.session, ctx.from.id);
+    const now = Math.floor(Date.now() / 1000);
+    return ctx.reply(
+      `<b>🕒 Time Zone</b>\n\nCurrent time zone: <code>${escapeHtml(current)}</code>\n` +
+      `Local time: <code>${formatIsoTimestamp(now, current)}</code>\n\n` +
+      "Change it with /timezone Europe/Berlin, or go back to UTC with /timezone reset.\n" +
+      "Turn on the Timestamps button below an inspection to see them.",
+      { parse_mode: "HTML" }
+    );
+  }
+  
+  const reset = timeZone.toLowerCase() === 'reset';
+  if (!reset && !isValidTimezone(timeZone)) {
+    return ctx.reply(`⚠️ Unknown time zone ${timeZone}. Use an IANA name like Europe/Berlin or America/New_York.`);
+  }
+  
+  // Store the canonical spelling, e.g. europe/berlin becomes Europe/Berlin.
+  // Only the time zone is stored, so the user keeps following the chat's view preferences.
+  const user = ctx.session.userPreferences[ctx.from.id] ??= {};
+  user.timezone = reset
+    ? undefined
+    : new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  
+  await ctx.reply(
+    `✅ Timestamps are now shown in ${getUserTimezone(ctx.session, ctx.from.id)}.`
+  );
+});
+
+// File ID command, decodes file_id and file_unique_id values without calling Telegram
+bot.command("fileid", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  // Decode the given IDs, or those of the replied-to media
+  let ids = ctx.match.trim().split(/\s+/).filter(Boolean);
+  const replied = ctx.message?.reply_to_message;
+  const file = ids.length === 0 && replied ? getMessageFile(replied) : undefined;
+  if (file) {
+    ids = [file.fileId, file.fileUniqueId];
+  }
+  
+  if (ids.length === 0 || ids.length > 2) {
+    return ctx.reply(
+      "⚠️ Send /fileid with a file_id or file_unique_id, or two of them to check whether they " +
+      "point to the same file. Reply to a media message with /fileid to decode its IDs."
+    );
+  }
+  
+  const decoded: DecodedFileIdentifier[] = [];
+  let fileIdText = "";
+  for (const [index, id] of ids.entries()) {
+    fileIdText += `<b>🔑 ${ids.length > 1 ? `ID ${index + 1}` : 'FILE ID'}</b>\n`;
+    try {
+      const identifier = decodeFileIdentifier(id);
+      decoded.push(identifier);
+      fileIdText += `<b>Kind:</b> ${identifier.kind}\n`;
+      for (const [label, value] of describeFileIdentifier(identifier)) {
+        fileIdText += `<b>${label}:</b> <code>${escapeHtml(value)}</code>\n`;
+      }
+    } catch (error) {
+      fileIdText += `⚠️ ${escapeHtml((error as Error).message)}\n`;
+    }
+    fileIdText += "\n";
+  }
+  
+  // Compare the media the IDs point to
+  if (decoded.length === 2) {
+    const same = getMediaKey(decoded[0]) === getMediaKey(decoded[1]);
+    fileIdText += same
+      ? "<b>Same file:</b> ✅ both IDs point to the same media (photo sizes share their media ID)"
+      : "<b>Same file:</b> ❌ the IDs point to different media";
+  }
+  
+  await ctx.reply(fileIdText.trim(), { parse_mode: "HTML" });
+});
+
+// Check auth command, verifies Mini App initData and Login Widget data offline
+bot.command("checkauth", async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  // Check the data after the command, or the text of the replied-to message
+  const input = ctx.match.trim() || ctx.message?.reply_to_message?.text?.trim() || "";
+  if (!input) {
+    return ctx.reply(
+      "⚠️ Send /checkauth with a Mini App initData string (or a Mini App URL containing tgWebAppData), " +
+      "or with Login Widget data as a query string or JSON. Replying to a message containing it works too.\n\n" +
+      "The hash is checked against this bot's token, so the data must come from a Mini App or login of this bot."
+    );
   }
   
-  if (importedSettings.usePerUserPreferences !== undefined) {
-    ctx.session.usePerUserPreferences = importedSettings.usePerUserPreferences;
+  let check: AuthDataCheck;
+  try {
+    check = await verifyAuthData(input, bot.token);
+  } catch (error) {
+    return ctx.reply(`⚠️ ${(error as Error).message}`);
   }
   
-  await ctx.reply("✅ Settings imported successfully!");
+  // Show the parsed fields like an update, masked and in the chosen raw format
+  const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
+  const fields = new PrivacyMasker(preferences.privacyOptions).mask(check.fields);
+  const serialized = serializeRaw(fields, preferences);
+  
+  await sendInspection(ctx, ctx.chat.id, {
+    header: formatAuthDataCheck(check, getUserTimezone(ctx.session, ctx.from?.id)),
+    payloadTitle: "<b>🔄 PARSED FIELDS</b>",
+    payload: serialized.payload,
+    payloadLanguage: serialized.language,
+    footer: ""
+  }, preferences);
 });
 
 // --------------------
@@ -689,162 +1426,198 @@ bot.command("import", async (ctx) => {
 // --------------------
 
 // Handle view mode changes
-bot.callbackQuery(/^view_(compact|full|raw)$/, async (ctx) => {
+bot.callbackQuery(/^view_(compact|full|raw|types)$/, async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
   // Extract the mode from the callback data
-  const mode = ctx.match[1] as 'compact' | 'full' | 'raw';
+  const mode = ctx.match[1] as ViewPreferences['displayMode'];
   
   // Update preferences in the appropriate place
   if (ctx.session.usePerUserPreferences && ctx.from) {
-    // Ensure user has a preferences object
-    if (!ctx.session.userPreferences[ctx.from.id]) {
-      ctx.session.userPreferences[ctx.from.id] = {
-        viewPreferences: { ...ctx.session.viewPreferences }
-      };
-    }
-    
     // Update the user's preferences
-    ctx.session.userPreferences[ctx.from.id].viewPreferences.displayMode = mode;
+    getOwnViewPreferences(ctx.session, ctx.from.id).displayMode = mode;
   } else {
     // Update global preferences
     ctx.session.viewPreferences.displayMode = mode;
   }
   
-  // Notify the user
-  await ctx.answerCallbackQuery(`Display mode changed to: ${mode}`);
+  // Re-render the inspection in the new mode
+  const note = await refreshInspection(ctx);
   
-  // Try to edit the original message if it exists
-  try {
-    const preferences = getEffectivePreferences(ctx.session, ctx.from?.id);
-    const keyboard = createViewControlsKeyboard(preferences);
-    
-    // If we have the callback message, update it
-    if (ctx.callbackQuery.message) {
-      await ctx.editMessageReplyMarkup({ 
-        reply_markup: keyboard 
-      });
-    }
-  } catch (error) {
-    console.error("Error updating message:", error);
-  }
+  // Notify the user
+  await ctx.answerCallbackQuery(`Display mode changed to: ${mode}${note}`);
 });
 
 // Handle section toggle buttons
-bot.callbackQuery(/^toggle_(forward|author)$/, async (ctx) => {
+bot.callbackQuery(/^toggle_(forward|author|keyboard|entities|timestamps|files|fileids)$/, async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
   // Extract the section from the callback data
-  const section = ctx.match[1] as 'forward' | 'author';
+  const section = ctx.match[1] as
+    'forward' | 'author' | 'keyboard' | 'entities' | 'timestamps' | 'files' | 'fileids';
   
   // Get the right preferences object to update
   let preferences: ViewPreferences;
   if (ctx.session.usePerUserPreferences && ctx.from) {
-    // Ensure user has a preferences object
-    if (!ctx.session.userPreferences[ctx.from.id]) {
-      ctx.session.userPreferences[ctx.from.id] = {
-        viewPreferences: { ...ctx.session.viewPreferences }
-      };
-    }
-    
-    preferences = ctx.session.userPreferences[ctx.from.id].viewPreferences;
+    preferences = getOwnViewPreferences(ctx.session, ctx.from.id);
   } else {
     preferences = ctx.session.viewPreferences;
   }
   
   // Update the appropriate flag
+  let answer = "";
   if (section === 'forward') {
     preferences.showForwardInfo = !preferences.showForwardInfo;
-    await ctx.answerCallbackQuery(
-      preferences.showForwardInfo ? 
+    answer = preferences.showForwardInfo ? 
       "Forward info enabled" : 
-      "Forward info disabled"
-    );
+      "Forward info disabled";
   } else if (section === 'author') {
     preferences.showAuthorInfo = !preferences.showAuthorInfo;
-    await ctx.answerCallbackQuery(
-      preferences.showAuthorInfo ? 
+    answer = preferences.showAuthorInfo ? 
       "Author info enabled" : 
-      "Author info disabled"
-    );
+      "Author info disabled";
+  } else if (section === 'keyboard') {
+    preferences.showKeyboard = !preferences.showKeyboard;
+    answer = preferences.showKeyboard ?
+      "Keyboard inspector enabled" :
+      "Keyboard inspector disabled";
+  } else if (section === 'entities') {
+    preferences.showEntities = !preferences.showEntities;
+    answer = preferences.showEntities ?
+      "Entities enabled" :
+      "Entities disabled";
+  } else if (section === 'timestamps') {
+    preferences.showTimestamps = !preferences.showTimestamps;
+    answer = preferences.showTimestamps ?
+      "Timestamps enabled" :
+      "Timestamps disabled";
+  } else if (section === 'files') {
+    preferences.showFileDetails = !preferences.showFileDetails;
+    answer = preferences.showFileDetails ?
+      "File details enabled" :
+      "File details disabled";
+  } else if (section === 'fileids') {
+    preferences.showFileIds = !preferences.showFileIds;
+    answer = preferences.showFileIds ?
+      "File ID decoding enabled" :
+      "File ID decoding disabled";
   }
   
-  // Update the message keyboard
-  try {
-    const effectivePrefs = getEffectivePreferences(ctx.session, ctx.from?.id);
-    const keyboard = createViewControlsKeyboard(effectivePrefs);
-    
-    // If we have the callback message, update it
-    if (ctx.callbackQuery.message) {
-      await ctx.editMessageReplyMarkup({ 
-        reply_markup: keyboard 
-      });
-    }
-  } catch (error) {
-    console.error("Error updating message:", error);
-  }
+  // Re-render the inspection with the section shown or hidden
+  const note = await refreshInspection(ctx);
+  await ctx.answerCallbackQuery(answer + note);
 });
 
 // Handle privacy option toggles
-bot.callbackQuery(/^privacy_(user_ids|chat_ids)$/, async (ctx) => {
+bot.callbackQuery(new RegExp(`^privacy_(${PRIVACY_TOGGLES.map((toggle) => toggle.callback).join('|')})$`), async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
-  // Extract the privacy option from the callback data
-  const option = ctx.match[1] as 'user_ids' | 'chat_ids';
+  // Find the privacy option from the callback data
+  const toggle = PRIVACY_TOGGLES.find((candidate) => candidate.callback === ctx.match[1]);
+  if (!toggle) {
+    return ctx.answerCallbackQuery();
+  }
   
   // Get the right preferences object to update
   let preferences: ViewPreferences;
   if (ctx.session.usePerUserPreferences && ctx.from) {
-    // Ensure user has a preferences object
-    if (!ctx.session.userPreferences[ctx.from.id]) {
-      ctx.session.userPreferences[ctx.from.id] = {
-        viewPreferences: { ...ctx.session.viewPreferences }
-      };
-    }
-    
-    preferences = ctx.session.userPreferences[ctx.from.id].viewPreferences;
+    preferences = getOwnViewPreferences(ctx.session, ctx.from.id);
   } else {
     preferences = ctx.session.viewPreferences;
   }
   
   // Update the appropriate flag
-  if (option === 'user_ids') {
-    preferences.privacyOptions.maskUserIds = !preferences.privacyOptions.maskUserIds;
-    await ctx.answerCallbackQuery(
-      preferences.privacyOptions.maskUserIds ? 
-      "User IDs will be masked" : 
-      "User IDs will be shown"
-    );
-  } else if (option === 'chat_ids') {
-    preferences.privacyOptions.maskChatIds = !preferences.privacyOptions.maskChatIds;
-    await ctx.answerCallbackQuery(
-      preferences.privacyOptions.maskChatIds ? 
-      "Chat IDs will be masked" : 
-      "Chat IDs will be shown"
-    );
+  const enabled = !preferences.privacyOptions[toggle.option];
+  preferences.privacyOptions[toggle.option] = enabled;
+  
+  let answer: string;
+  if (toggle.option === 'pseudonymize') {
+    answer = enabled ?
+      "Masked values will be replaced by pseudonyms" :
+      "Masked values will be hidden";
+  } else {
+    answer = enabled ?
+      `${toggle.label} will be masked` :
+      `${toggle.label} will be shown`;
   }
   
-  // Update the message keyboard
-  try {
-    const effectivePrefs = getEffectivePreferences(ctx.session, ctx.from?.id);
-    const keyboard = createViewControlsKeyboard(effectivePrefs);
-    
-    // If we have the callback message, update it
-    if (ctx.callbackQuery.message) {
-      await ctx.editMessageReplyMarkup({ 
-        reply_markup: keyboard 
+  // The /privacy panel shows its own text and keyboard
+  const message = ctx.callbackQuery.message;
+  if (message && "text" in message && message.text?.startsWith(PRIVACY_PANEL_TITLE)) {
+    try {
+      const effectivePrefs = getEffectivePreferences(ctx.session, ctx.from?.id);
+      await ctx.editMessageText(createPrivacyText(effectivePrefs), {
+        parse_mode: "HTML",
+        reply_markup: createPrivacyKeyboard(effectivePrefs)
       });
+    } catch (error) {
+      console.error("Error updating privacy panel:", error);
     }
-  } catch (error) {
-    console.error("Error updating message:", error);
+    return ctx.answerCallbackQuery(answer);
+  }
+  
+  // Re-render the inspection with the new masking
+  const note = await refreshInspection(ctx);
+  await ctx.answerCallbackQuery(answer + note);
+});
+
+// Handle raw format changes
+bot.callbackQuery(/^format_(json|yaml|compact|flat|pruned)$/, async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  // Extract the format from the callback data
+  const format = ctx.match[1] as ViewPreferences['rawFormat'];
+  
+  // Update preferences in the appropriate place
+  if (ctx.session.usePerUserPreferences && ctx.from) {
+    // Update the user's preferences
+    getOwnViewPreferences(ctx.session, ctx.from.id).rawFormat = format;
+  } else {
+    // Update global preferences
+    ctx.session.viewPreferences.rawFormat = format;
+  }
+  
+  // Re-render the inspection in the new format
+  const note = await refreshInspection(ctx);
+  
+  // Notify the user
+  await ctx.answerCallbackQuery(`Raw format changed to: ${format}${note}`);
+});
+
+// Handle overflow strategy changes
+bot.callbackQuery(/^overflow_(split|document)$/, async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  // Extract the strategy from the callback data
+  const strategy = ctx.match[1] as 'split' | 'document';
+  
+  // Update preferences in the appropriate place
+  if (ctx.session.usePerUserPreferences && ctx.from) {
+    // Update the user's preferences
+    getOwnViewPreferences(ctx.session, ctx.from.id).overflowStrategy = strategy;
+  } else {
+    // Update global preferences
+    ctx.session.viewPreferences.overflowStrategy = strategy;
   }
+  
+  // Re-render the inspection, which resends it if it no longer fits in place
+  const note = await refreshInspection(ctx);
+  
+  // Notify the user
+  await ctx.answerCallbackQuery(
+    (strategy === 'document' ?
+    "Long output will be sent as a file" :
+    "Long output will be split into several messages") + note
+  );
 });
 
 // Handle message filter toggles
-bot.callbackQuery(/^filter_(all|text|photo|video|document|audio|sticker|animation|voice|poll|location|contact|forward|save)$/, async (ctx) => {
+bot.callbackQuery(new RegExp(`^filter_(all|${MESSAGE_TYPES.join('|')}|save)$`), async (ctx) => {
   // Ensure session is properly initialized
   ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
   
@@ -930,22 +1703,34 @@ bot.callbackQuery(/^userprefs_(toggle|view|reset)$/, async (ctx) => {
     // View user's current preferences
     const preferences = getEffectivePreferences(ctx.session, ctx.from.id);
     
+    // List the masked categories besides user and chat IDs
+    const otherMasked = PRIVACY_TOGGLES
+      .filter((toggle) => !['maskUserIds', 'maskChatIds', 'pseudonymize'].includes(toggle.option))
+      .filter((toggle) => preferences.privacyOptions[toggle.option])
+      .map((toggle) => toggle.label)
+      .join(', ');
+    
     const prefsText = `
 <b>👤 Your Current Preferences</b>
 
 Display mode: ${preferences.displayMode}
 Show forward info: ${preferences.showForwardInfo ? 'Yes' : 'No'}
 Show author info: ${preferences.showAuthorInfo ? 'Yes' : 'No'}
+Show entities: ${preferences.showEntities ? 'Yes' : 'No'}
 Mask user IDs: ${preferences.privacyOptions.maskUserIds ? 'Yes' : 'No'}
 Mask chat IDs: ${preferences.privacyOptions.maskChatIds ? 'Yes' : 'No'}
+Other masked data: ${otherMasked || 'None'}
+Pseudonyms: ${preferences.privacyOptions.pseudonymize ? 'Yes' : 'No'}
+Long output: ${preferences.overflowStrategy === 'document' ? 'Sent as file' : 'Split into messages'}
 `;
     
     await ctx.answerCallbackQuery("Showing your preferences");
     await ctx.reply(prefsText, { parse_mode: "HTML" });
   } else if (option === 'reset' && ctx.from) {
-    // Reset user preferences to group defaults
-    if (ctx.from.id in ctx.session.userPreferences) {
-      delete ctx.session.userPreferences[ctx.from.id];
+    // Reset user preferences to group defaults, keeping the time zone
+    const user = ctx.session.userPreferences[ctx.from.id];
+    if (user?.viewPreferences) {
+      delete user.viewPreferences;
       await ctx.answerCallbackQuery("Your preferences have been reset to group defaults");
     } else {
       await ctx.answerCallbackQuery("You're already using group defaults");
@@ -993,17 +1778,8 @@ bot.callbackQuery(/^admin_(toggle|export|reset|userprefs|filters)$/, async (ctx)
     }
   } else if (option === 'export') {
     // Generate export command
-    const exportCommand = generateExportCommand(ctx.session);
-    
     await ctx.answerCallbackQuery("Generated export command");
-    await ctx.reply(
-      "<b>📤 Export Settings</b>\n\n" +
-      "Copy the command below and use it in any chat with this bot to import these settings:\n\n" +
-      `<code>${exportCommand}</code>`,
-      {
-        parse_mode: "HTML"
-      }
-    );
+    await replyWithExport(ctx, ctx.session.usePerUserPreferences);
   } else if (option === 'reset') {
     // Reset all settings to defaults
     ctx.session = ensureCompleteSession({}, ctx.chat?.type);
@@ -1053,7 +1829,7 @@ When enabled, each user's display preferences will be saved and applied only to
     
     const messageList = Object.entries(ctx.session.messageFilters.enabledTypes)
       .filter(([_, enabled]) => enabled)
-      .map(([type]) => capitalize(type))
+      .map(([type]) => formatMessageType(type))
       .join(", ");
     
     const filterText = ctx.session.messageFilters.respondToAll
@@ -1066,14 +1842,83 @@ When enabled, each user's display preferences will be saved and applied only to
   }
 });
 
+// Handle the download button of file details
+bot.callbackQuery("file_download", async (ctx) => {
+  const message = ctx.callbackQuery.message;
+  const cached = message && inspectionCache.get(messageKey(message.chat.id, message.message_id));
+  const file = cached && getInspectedFile(cached.update);
+  
+  if (!message || !file) {
+    return ctx.answerCallbackQuery("The original update expired, inspect the message again");
+  }
+  
+  await ctx.answerCallbackQuery("Downloading file…");
+  
+  try {
+    // Files never change, so a file is only downloaded once
+    let check = fileCheckCache.get(file.fileUniqueId);
+    if (!check) {
+      const info = await lookupFile(ctx, file);
+      if (!info.file_path) {
+        throw new Error("Telegram returned no file_path");
+      }
+      
+      check = await downloadAndCheckFile(bot.token, info.file_path);
+      fileCheckCache.set(file.fileUniqueId, check);
+    }
+    
+    await ctx.reply(formatFileCheck(file, check), {
+      parse_mode: "HTML",
+      reply_parameters: { message_id: message.message_id }
+    });
+  } catch (error) {
+    console.error("Error downloading file:", error);
+    await ctx.reply(`⚠️ Couldn't download the file: ${(error as Error).message}`);
+  }
+});
+
+// Handle import confirmation buttons
+bot.callbackQuery(/^import_apply_([0-9a-f]+)$/, async (ctx) => {
+  // Ensure session is properly initialized
+  ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
+  
+  const code = exportCodes.get(`${IMPORT_PREFIX}${ctx.match[1]}`);
+  const result = code ? await parseSettingsExport(code) : undefined;
+  
+  if (!result?.ok) {
+    return ctx.answerCallbackQuery("⚠️ This import is no longer available, send the code again");
+  }
+  
+  // Apply the imported settings
+  ctx.session = ensureCompleteSession(
+    applyImportedSettings(ctx.session, result.settings),
+    ctx.chat?.type
+  );
+  
+  await ctx.answerCallbackQuery("Settings imported");
+  await ctx.editMessageText("✅ Settings imported successfully!");
+});
+
+bot.callbackQuery("import_cancel", async (ctx) => {
+  await ctx.answerCallbackQuery("Import cancelled");
+  await ctx.editMessageText("Import cancelled, your settings are unchanged.");
+});
+
 // --------------------
-// Message Handler
+// Update Inspector
 // --------------------
 
-// Handle all messages
-bot.on("message", async (ctx) => {
+// Inspect every update that no command or button handled above
+bot.use(async (ctx) => {
   try {
-    console.log("Received message:", ctx.message);
+    console.log("Received update:", getUpdateKind(ctx.update));
+    
+    // Acknowledge queries so the client stops waiting for an answer
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery();
+    } else if (ctx.inlineQuery) {
+      await ctx.answerInlineQuery([], { cache_time: 0 });
+    }
     
     // Ensure session is properly initialized
     ctx.session = ensureCompleteSession(ctx.session, ctx.chat?.type);
@@ -1083,49 +1928,69 @@ bot.on("message", async (ctx) => {
       return;
     }
     
+    // Remember this version of the message, keeping the one an edit replaces to diff against
+    const incoming = getUpdateMessage(ctx.update);
+    let previous: Message | undefined;
+    if (incoming) {
+      const key = messageKey(incoming.chat.id, incoming.message_id);
+      if (getUpdateKind(ctx.update)?.startsWith('edited_')) {
+        previous = messageVersions.get(key);
+      }
+      messageVersions.set(key, incoming);
+    }
+    
     // Check message type and apply filter if needed
     const messageType = getMessageType(ctx);
     if (messageType && !shouldProcessMessageType(ctx.session.messageFilters, messageType)) {
       return;
     }
     
+    // Find out where the inspection goes
+    const chatId = await getReplyChatId(ctx);
+    if (chatId === undefined) {
+      return;
+    }
+    
     const update = ctx.update;
-    const author = ctx.from?.id;
+    const author = getUpdateAuthor(ctx);
 
     // Extract the forward origin if the message is forwarded
-    const forwardOrigin = ctx.message?.forward_origin as AnyMessageOrigin | undefined;
+    const forwardOrigin = getUpdateMessage(update)?.forward_origin as AnyMessageOrigin | undefined;
 
-    // Get effective preferences for this user and ensure it has all required fields
+    // Get effective preferences for this user (complete, as the session was migrated above)
     const preferences = getEffectivePreferences(ctx.session, author);
-    
-    // Make sure privacyOptions exists
-    if (!preferences.privacyOptions) {
-      preferences.privacyOptions = {
-        maskUserIds: false,
-        maskPhoneNumbers: true,
-        maskChatIds: false
-      };
-    }
 
-    // Generate the reply text using the helper function
-    const text = prettifyUpdate(
+    // Generate the reply sections using the helper function
+    const timeZone = getUserTimezone(ctx.session, author);
+    const parts = await addAsyncSections(ctx, formatInspection(
       update, 
       preferences,
       author, 
-      forwardOrigin
-    );
+      forwardOrigin,
+      undefined,
+      previous,
+      timeZone
+    ), update, preferences, timeZone);
 
     // Create keyboard for view controls
-    const keyboard = createViewControlsKeyboard(preferences);
-
-    // Reply to the user with the formatted update information and buttons
-    await ctx.reply(text, { 
-      parse_mode: "HTML",
-      reply_markup: keyboard
+    const keyboard = createViewControlsKeyboard(preferences, getInspectedFile(update));
+
+    // Send the formatted update information and buttons to the chat,
+    // splitting it or attaching it as a file if it is too long,
+    // and keep the update so the buttons can re-render it
+    await sendAndCacheInspection(ctx, chatId, parts, preferences, keyboard, {
+      update,
+      author,
+      forward: forwardOrigin,
+      previous
     });
   } catch (error) {
-    console.error("Error in message handler:", error);
-    await ctx.reply("Sorry, I encountered an error while processing your message.");
+    console.error("Error in update inspector:", error);
+    
+    // Only messages have a chat to apologise in
+    if (ctx.message) {
+      await ctx.reply("Sorry, I encountered an error while processing your message.");
+    }
   }
 });
 
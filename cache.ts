@@ -0,0 +1,74 @@
+/**
+ * A cache entry together with the time it stops being valid
+ */
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache with a maximum number of entries and a time to live.
+ * When full, the least recently used entry is evicted first.
+ */
+export class BoundedCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+
+  /**
+   * @param maxEntries - Maximum number of entries kept at once
+   * @param ttlMs - How long an entry stays valid after it was set
+   */
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Get a value, or undefined if it was never set, evicted or has expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move the entry to the end so it is evicted last
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Set a value, evicting the least recently used entries if the cache is full
+   */
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove a value
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Number of entries currently held, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
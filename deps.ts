@@ -2,6 +2,7 @@ export * from "https://deno.land/x/grammy@v1.35.0/mod.ts";
 export { serve } from "https://deno.land/std/http/server.ts";
 export { escapeHtml } from "https://deno.land/x/escape@1.4.2/mod.ts";
 export { apiThrottler } from 'https://lib.deno.dev/x/grammy_transformer_throttler@1/mod.ts';
+export { run, sequentialize } from "https://deno.land/x/grammy_runner@v2.0.3/mod.ts";
 
 // Session related exports
 export { 
@@ -16,4 +17,4 @@ export {
   InlineKeyboard, 
   Keyboard 
 } from "https://deno.land/x/grammy@v1.35.0/mod.ts";
-export type { MessageOriginChannel, MessageOriginChat, MessageOriginHiddenUser, MessageOriginUser, Update } from "https://deno.land/x/grammy_types@v3.19.0/mod.ts";
+export type { File, InlineKeyboardButton, InlineKeyboardMarkup, Message, MessageEntity, MessageOriginChannel, MessageOriginChat, MessageOriginHiddenUser, MessageOriginUser, Update, UserFromGetMe } from "https://deno.land/x/grammy_types@v3.19.0/mod.ts";
@@ -0,0 +1,2 @@
+// Dependencies only used by the tests
+export { assertEquals, assertThrows } from "https://deno.land/std/assert/mod.ts";
@@ -0,0 +1,269 @@
+import { escapeHtml, Message, MessageEntity } from "./deps.ts";
+
+/**
+ * A run of words in a text diff
+ */
+export interface DiffPart {
+  /**
+   * Whether the words are unchanged, only in the new text or only in the old text
+   */
+  kind: 'same' | 'added' | 'removed';
+
+  /**
+   * The words, including the whitespace between them
+   */
+  text: string;
+}
+
+/**
+ * The differences between two versions of a message
+ */
+export interface MessageDiff {
+  /**
+   * Word diff of the text or caption, if it changed
+   */
+  text?: DiffPart[];
+
+  /**
+   * Entities only in the new version
+   */
+  addedEntities: MessageEntity[];
+
+  /**
+   * Entities only in the old version
+   */
+  removedEntities: MessageEntity[];
+
+  /**
+   * The old and new reply_markup, if it changed
+   */
+  replyMarkup?: { before: unknown; after: unknown };
+
+  /**
+   * When the old and the new version were sent or last edited (Unix time)
+   */
+  editDate: { before: number; after?: number };
+
+  /**
+   * Other top-level fields that changed, e.g. the media of an edited media message
+   */
+  otherFields: string[];
+}
+
+/**
+ * Fields compared on their own, or that change with every edit
+ */
+const COMPARED_FIELDS = new Set([
+  'text', 'caption', 'entities', 'caption_entities', 'reply_markup', 'edit_date', 'date',
+]);
+
+/**
+ * Maximum product of the word counts diffed word by word,
+ * longer texts are shown as replaced entirely
+ */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Maximum number of characters of the text diff shown, so the section stays well within a message
+ */
+const MAX_SHOWN_DIFF = 1500;
+
+/**
+ * Maximum number of added and of removed entities listed
+ */
+const MAX_LISTED_ENTITIES = 10;
+
+/**
+ * Maximum length of a keyboard description
+ */
+const MAX_MARKUP_DESCRIPTION = 300;
+
+/**
+ * Splits text into words and the whitespace between them
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+/**
+ * Appends words to a diff, merging them with the previous part of the same kind
+ */
+function pushPart(parts: DiffPart[], kind: DiffPart['kind'], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last?.kind === kind) {
+    last.text += text;
+  } else {
+    parts.push({ kind, text });
+  }
+}
+
+/**
+ * Diffs two texts word by word, using the longest common subsequence of their words
+ *
+ * @returns The parts of both texts in order, each marked as unchanged, added or removed
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const old = tokenize(before);
+  const updated = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (old.length * updated.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', before);
+    pushPart(parts, 'added', after);
+    return parts;
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of old[i..] and updated[j..]
+  const lengths = Array.from({ length: old.length + 1 }, () => new Uint32Array(updated.length + 1));
+  for (let i = old.length - 1; i >= 0; i--) {
+    for (let j = updated.length - 1; j >= 0; j--) {
+      lengths[i][j] = old[i] === updated[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < old.length && j < updated.length) {
+    if (old[i] === updated[j]) {
+      pushPart(parts, 'same', old[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', old[i++]);
+    } else {
+      pushPart(parts, 'added', updated[j++]);
+    }
+  }
+
+  for (; i < old.length; i++) {
+    pushPart(parts, 'removed', old[i]);
+  }
+  for (; j < updated.length; j++) {
+    pushPart(parts, 'added', updated[j]);
+  }
+
+  return parts;
+}
+
+/**
+ * Lists the entities of one list that aren't in the other
+ */
+function entitiesMissingFrom(entities: MessageEntity[], other: MessageEntity[]): MessageEntity[] {
+  const keys = new Set(other.map((entity) => JSON.stringify(entity)));
+  return entities.filter((entity) => !keys.has(JSON.stringify(entity)));
+}
+
+/**
+ * Compares two versions of a message
+ *
+ * @param previous - The last version seen before the edit
+ * @param current - The edited version
+ */
+export function diffMessages(previous: Message, current: Message): MessageDiff {
+  const before = previous.text ?? previous.caption ?? '';
+  const after = current.text ?? current.caption ?? '';
+  const beforeEntities = previous.entities ?? previous.caption_entities ?? [];
+  const afterEntities = current.entities ?? current.caption_entities ?? [];
+
+  const beforeMarkup = JSON.stringify(previous.reply_markup);
+  const afterMarkup = JSON.stringify(current.reply_markup);
+
+  const fields = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  const otherFields = [...fields].filter((field) =>
+    !COMPARED_FIELDS.has(field) &&
+    JSON.stringify(previous[field as keyof Message]) !== JSON.stringify(current[field as keyof Message])
+  );
+
+  return {
+    text: before !== after ? diffWords(before, after) : undefined,
+    addedEntities: entitiesMissingFrom(afterEntities, beforeEntities),
+    removedEntities: entitiesMissingFrom(beforeEntities, afterEntities),
+    replyMarkup: beforeMarkup !== afterMarkup
+      ? { before: previous.reply_markup, after: current.reply_markup }
+      : undefined,
+    editDate: { before: previous.edit_date ?? previous.date, after: current.edit_date },
+    otherFields
+  };
+}
+
+/**
+ * Formats an entity as a short description, e.g. bold 0+5
+ */
+function describeEntity(entity: MessageEntity): string {
+  return `${entity.type} ${entity.offset}+${entity.length}`;
+}
+
+/**
+ * Describes an inline keyboard by its button labels, e.g. [Yes] [No] / [Cancel]
+ */
+function describeMarkup(markup: unknown): string {
+  const rows = (markup as { inline_keyboard?: { text: string }[][] } | undefined)?.inline_keyboard;
+  if (!rows || rows.length === 0) {
+    return 'none';
+  }
+
+  const description = rows
+    .map((row) => row.map((button) => `[${button.text}]`).join(' '))
+    .join(' / ');
+  return description.length > MAX_MARKUP_DESCRIPTION
+    ? `${description.slice(0, MAX_MARKUP_DESCRIPTION)}…`
+    : description;
+}
+
+/**
+ * Formats a Unix time as an ISO 8601 date
+ */
+function formatDate(date: number): string {
+  return new Date(date * 1000).toISOString();
+}
+
+/**
+ * Renders a message diff as an HTML section in the style of the other inspection sections.
+ * Removed words are struck through and added words are underlined.
+ */
+export function renderMessageDiff(diff: MessageDiff): string {
+  let diffText = `<b>✏️ EDIT DIFF</b>\n`;
+
+  const after = diff.editDate.after !== undefined ? formatDate(diff.editDate.after) : 'unknown';
+  diffText += `<b>Edited:</b> <code>${formatDate(diff.editDate.before)}</code> → <code>${after}</code>\n`;
+
+  if (diff.text) {
+    let budget = MAX_SHOWN_DIFF;
+    let words = '';
+    for (const part of diff.text) {
+      const cut = part.text.length > budget;
+      const text = escapeHtml(cut ? `${part.text.slice(0, budget)}…` : part.text);
+      words += part.kind === 'added' ? `<u>${text}</u>` : part.kind === 'removed' ? `<s>${text}</s>` : text;
+
+      if (cut) {
+        break;
+      }
+      budget -= part.text.length;
+    }
+    diffText += `<b>Text:</b>\n<blockquote>${words}</blockquote>\n`;
+  } else {
+    diffText += `<b>Text:</b> unchanged\n`;
+  }
+
+  for (const [sign, entities] of [['+', diff.addedEntities], ['−', diff.removedEntities]] as const) {
+    for (const entity of entities.slice(0, MAX_LISTED_ENTITIES)) {
+      diffText += `<b>${sign} Entity:</b> <code>${escapeHtml(describeEntity(entity))}</code>\n`;
+    }
+    if (entities.length > MAX_LISTED_ENTITIES) {
+      diffText += `<b>${sign} Entity:</b> <i>…and ${entities.length - MAX_LISTED_ENTITIES} more</i>\n`;
+    }
+  }
+
+  if (diff.replyMarkup) {
+    diffText += `<b>Reply markup:</b> <code>${escapeHtml(describeMarkup(diff.replyMarkup.before))}</code>` +
+      ` → <code>${escapeHtml(describeMarkup(diff.replyMarkup.after))}</code>\n`;
+  }
+
+  if (diff.otherFields.length > 0) {
+    diffText += `<b>Also changed:</b> ${diff.otherFields.map((field) => `<code>${field}</code>`).join(', ')}\n`;
+  }
+
+  return diffText + '\n';
+}
@@ -0,0 +1,167 @@
+import { MessageEntity } from "./deps.ts";
+
+/**
+ * An entity together with the text it covers, as listed in the entities section
+ */
+export interface EntityDescription {
+  /**
+   * Position in the entities array, starting at 1 (also used as the marker number)
+   */
+  index: number;
+
+  /**
+   * The entity as sent by Telegram
+   */
+  entity: MessageEntity;
+
+  /**
+   * The exact text the entity covers
+   */
+  text: string;
+
+  /**
+   * Type-specific details (url, user, custom_emoji_id, language) as label/value pairs
+   */
+  details: [label: string, value: string][];
+
+  /**
+   * Problems with the offsets, e.g. an entity ending inside a surrogate pair
+   */
+  problems: string[];
+}
+
+/**
+ * Maximum length of the annotated text, in UTF-16 code units
+ */
+const ANNOTATION_LIMIT = 1000;
+
+/**
+ * Checks whether a UTF-16 code unit is the second half of a surrogate pair
+ */
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xDC00 && code <= 0xDFFF;
+}
+
+/**
+ * Checks whether an offset lies between the two halves of a surrogate pair
+ */
+function splitsSurrogatePair(text: string, offset: number): boolean {
+  return offset > 0 && offset < text.length && isLowSurrogate(text.charCodeAt(offset));
+}
+
+/**
+ * Replaces halves of surrogate pairs left alone by a bad offset with U+FFFD,
+ * as Telegram rejects text that isn't valid UTF-16
+ */
+function toWellFormed(text: string): string {
+  return text.replace(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g, '\uFFFD');
+}
+
+/**
+ * Counts the Unicode code points of a text, e.g. an emoji counts once
+ * while Telegram counts it as two UTF-16 code units
+ */
+export function countCodePoints(text: string): number {
+  return Array.from(text).length;
+}
+
+/**
+ * Describes every entity of a text.
+ *
+ * Telegram measures offsets and lengths in UTF-16 code units, the same units
+ * JavaScript strings are indexed in, so slicing the text gives exactly what
+ * Telegram formats. Characters outside the BMP (most emoji) count as two units.
+ *
+ * @param text - The message text or caption
+ * @param entities - Its entities or caption_entities
+ */
+export function describeEntities(text: string, entities: MessageEntity[]): EntityDescription[] {
+  return entities.map((entity, position) => {
+    const end = entity.offset + entity.length;
+    const details: EntityDescription['details'] = [];
+    const problems: string[] = [];
+
+    if (entity.type === 'text_link') {
+      details.push(['url', entity.url]);
+    } else if (entity.type === 'text_mention') {
+      details.push(['user', String(entity.user.id)]);
+    } else if (entity.type === 'custom_emoji') {
+      details.push(['custom_emoji_id', entity.custom_emoji_id]);
+    } else if (entity.type === 'pre' && entity.language) {
+      details.push(['language', entity.language]);
+    }
+
+    if (end > text.length) {
+      problems.push(`ends at ${end}, after the end of the text (${text.length})`);
+    }
+    if (splitsSurrogatePair(text, entity.offset)) {
+      problems.push('starts inside a surrogate pair');
+    }
+    if (splitsSurrogatePair(text, end)) {
+      problems.push('ends inside a surrogate pair');
+    }
+
+    return {
+      index: position + 1,
+      entity,
+      text: toWellFormed(text.slice(entity.offset, end)),
+      details,
+      problems
+    };
+  });
+}
+
+/**
+ * Returns a copy of the text with markers where each entity starts (⟦n) and ends (n⟧).
+ * At the same position, entities that end are closed before others are opened,
+ * so nested entities produce properly nested markers.
+ *
+ * @param text - The message text or caption
+ * @param entities - Its entities or caption_entities
+ * @returns The annotated text, cut after ANNOTATION_LIMIT code units of the original
+ */
+export function annotateEntities(text: string, entities: MessageEntity[]): string {
+  let visible = Math.min(text.length, ANNOTATION_LIMIT);
+  if (splitsSurrogatePair(text, visible)) {
+    visible--;
+  }
+
+  const opens = new Map<number, number[]>();
+  const closes = new Map<number, number[]>();
+
+  entities.forEach((entity, position) => {
+    const start = Math.min(entity.offset, text.length);
+    const end = Math.min(entity.offset + entity.length, text.length);
+    opens.set(start, [...(opens.get(start) ?? []), position]);
+    closes.set(end, [...(closes.get(end) ?? []), position]);
+  });
+
+  let annotated = '';
+  for (let offset = 0; offset <= visible; offset++) {
+    // Close the entity that was opened last first
+    const closing = (closes.get(offset) ?? []).sort(
+      (a, b) => entities[b].offset - entities[a].offset || b - a
+    );
+    for (const position of closing) {
+      annotated += `${position + 1}⟧`;
+    }
+
+    // Open longer entities first so they enclose shorter ones
+    const opening = (opens.get(offset) ?? []).sort(
+      (a, b) => entities[b].length - entities[a].length || a - b
+    );
+    for (const position of opening) {
+      annotated += `⟦${position + 1}`;
+    }
+
+    if (offset < visible) {
+      annotated += text[offset];
+    }
+  }
+
+  if (text.length > visible) {
+    annotated += '…';
+  }
+
+  return toWellFormed(annotated);
+}
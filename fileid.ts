@@ -0,0 +1,405 @@
+/**
+ * What a file_id says about a file
+ */
+export interface DecodedFileId {
+  /**
+   * Major version, the last byte of the decoded ID
+   */
+  version: number;
+
+  /**
+   * Minor version, the byte before it (version 4 and later only)
+   */
+  subVersion?: number;
+
+  /**
+   * Numeric file type
+   */
+  typeId: number;
+
+  /**
+   * Name of the file type, e.g. photo or voice
+   */
+  type: string;
+
+  /**
+   * Data center the file is stored in
+   */
+  dcId: number;
+
+  /**
+   * Length of the file reference, if the ID carries one
+   */
+  fileReferenceLength?: number;
+
+  /**
+   * URL of a file hosted on the web
+   */
+  url?: string;
+
+  /**
+   * ID of the photo or document on Telegram's servers
+   */
+  mediaId?: string;
+
+  /**
+   * Whether the ID carries an access hash (always true, the hash itself isn't shown)
+   */
+  hasAccessHash: boolean;
+
+  /**
+   * Where a photo size comes from, e.g. thumbnail or dialog_photo_big
+   */
+  photoSource?: string;
+
+  /**
+   * Size letter of a thumbnail, e.g. m or x
+   */
+  thumbnailType?: string;
+
+  /**
+   * Bytes left after the known fields
+   */
+  trailingBytes: number;
+}
+
+/**
+ * What a file_unique_id says about a file
+ */
+export interface DecodedFileUniqueId {
+  /**
+   * Numeric kind of the ID
+   */
+  typeId: number;
+
+  /**
+   * Name of the kind, e.g. photo or document
+   */
+  type: string;
+
+  /**
+   * ID of the photo or document on Telegram's servers
+   */
+  mediaId?: string;
+
+  /**
+   * URL of a file hosted on the web
+   */
+  url?: string;
+
+  /**
+   * Further bytes identifying a photo size, as hex
+   */
+  extra?: string;
+}
+
+/**
+ * A decoded file_id or file_unique_id
+ */
+export type DecodedFileIdentifier =
+  | { kind: 'file_id'; decoded: DecodedFileId }
+  | { kind: 'file_unique_id'; decoded: DecodedFileUniqueId };
+
+/**
+ * File types by their number in a file_id
+ */
+const FILE_TYPES = [
+  'thumbnail', 'profile_photo', 'photo', 'voice', 'video', 'document', 'encrypted', 'temp',
+  'sticker', 'audio', 'animation', 'encrypted_thumbnail', 'wallpaper', 'video_note',
+  'secure_raw', 'secure', 'background', 'document_as_file', 'ringtone', 'call_log',
+  'photo_story', 'video_story', 'self_destructing_photo', 'self_destructing_video',
+  'self_destructing_video_note', 'self_destructing_voice_note',
+];
+
+/**
+ * File types whose location is a photo size rather than a document
+ */
+const PHOTO_TYPES = new Set([
+  'thumbnail', 'profile_photo', 'photo', 'encrypted_thumbnail', 'wallpaper', 'photo_story',
+  'self_destructing_photo',
+]);
+
+/**
+ * Kinds of file_unique_id by their number
+ */
+const UNIQUE_ID_TYPES = ['web', 'photo', 'document', 'secure', 'encrypted', 'temp'];
+
+/**
+ * Sources of a photo size by their number
+ */
+const PHOTO_SOURCES = [
+  'legacy', 'thumbnail', 'dialog_photo_small', 'dialog_photo_big', 'sticker_set_thumbnail',
+  'full_legacy', 'dialog_photo_small_legacy', 'dialog_photo_big_legacy',
+  'sticker_set_thumbnail_legacy', 'sticker_set_thumbnail_version',
+];
+
+/**
+ * Flag set in the type of a file_id that carries a file reference
+ */
+const FILE_REFERENCE_FLAG = 1 << 25;
+
+/**
+ * Flag set in the type of a file_id of a file hosted on the web
+ */
+const WEB_LOCATION_FLAG = 1 << 24;
+
+/**
+ * Major versions of file_id this decoder understands
+ */
+const SUPPORTED_VERSIONS = [2, 3, 4];
+
+/**
+ * Length of the shortest file_id after decoding: type, DC, media ID, access hash and version
+ */
+const MIN_FILE_ID_LENGTH = 4 + 4 + 8 + 8 + 1;
+
+/**
+ * Reads little-endian values from decoded bytes, failing clearly when they run out
+ */
+class ByteReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Number of bytes not read yet
+   */
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  /**
+   * Moves past the next bytes, checking that they exist
+   */
+  private take(length: number, field: string): number {
+    if (this.remaining < length) {
+      throw new Error(`The ID is truncated: ${field} needs ${length} bytes at offset ${this.offset}, ` +
+        `only ${this.remaining} left`);
+    }
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+
+  int32(field: string): number {
+    return this.view.getInt32(this.take(4, field), true);
+  }
+
+  int64(field: string): bigint {
+    return this.view.getBigInt64(this.take(8, field), true);
+  }
+
+  /**
+   * Reads a TL-serialized byte string, which is padded to a multiple of 4 bytes
+   */
+  tlBytes(field: string): Uint8Array {
+    let length = this.bytes[this.take(1, field)];
+    let header = 1;
+    if (length === 254) {
+      const start = this.take(3, field);
+      length = this.bytes[start] | (this.bytes[start + 1] << 8) | (this.bytes[start + 2] << 16);
+      header = 4;
+    }
+
+    const start = this.take(length, field);
+    this.take((4 - ((header + length) % 4)) % 4, field);
+    return this.bytes.slice(start, start + length);
+  }
+
+  /**
+   * The bytes not read yet
+   */
+  rest(): Uint8Array {
+    return this.bytes.slice(this.offset);
+  }
+}
+
+/**
+ * Decodes base64url without padding, as used by file IDs
+ */
+function decodeBase64Url(id: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new Error('The ID contains characters that are not base64url');
+  }
+  if (id.length % 4 === 1) {
+    throw new Error('The ID has an impossible length for base64url');
+  }
+
+  const binary = atob(id.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Expands runs of zero bytes, which file IDs store as a zero followed by the run length
+ */
+function decodeZeroRuns(bytes: Uint8Array): Uint8Array {
+  const result: number[] = [];
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) {
+      result.push(bytes[i]);
+      continue;
+    }
+
+    if (i + 1 >= bytes.length) {
+      throw new Error('The ID is corrupt: it ends inside a run of zero bytes');
+    }
+    result.push(...new Array(bytes[++i]).fill(0));
+  }
+
+  return Uint8Array.from(result);
+}
+
+/**
+ * Formats bytes as lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decodes a Bot API file_id without calling Telegram
+ *
+ * @throws An error naming the problem if the ID is corrupt or of an unknown version
+ */
+export function decodeFileId(fileId: string): DecodedFileId {
+  const bytes = decodeZeroRuns(decodeBase64Url(fileId));
+  if (bytes.length < MIN_FILE_ID_LENGTH) {
+    throw new Error(`The ID is too short for a file_id (${bytes.length} bytes)`);
+  }
+
+  // The version is stored last, newer IDs also store a minor version before it
+  const version = bytes[bytes.length - 1];
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unknown file_id version ${version}, expected one of ${SUPPORTED_VERSIONS.join(', ')}`);
+  }
+  const subVersion = version >= 4 ? bytes[bytes.length - 2] : undefined;
+  const reader = new ByteReader(bytes.subarray(0, bytes.length - (version >= 4 ? 2 : 1)));
+
+  const rawType = reader.int32('type');
+  const typeId = rawType & ~(FILE_REFERENCE_FLAG | WEB_LOCATION_FLAG);
+  const type = FILE_TYPES[typeId];
+  if (type === undefined) {
+    throw new Error(`Unknown file type ${typeId}`);
+  }
+
+  const decoded: DecodedFileId = {
+    version,
+    subVersion,
+    typeId,
+    type,
+    dcId: reader.int32('DC ID'),
+    hasAccessHash: false,
+    trailingBytes: 0
+  };
+
+  if (rawType & FILE_REFERENCE_FLAG) {
+    decoded.fileReferenceLength = reader.tlBytes('file reference').length;
+  }
+
+  if (rawType & WEB_LOCATION_FLAG) {
+    decoded.url = new TextDecoder().decode(reader.tlBytes('URL'));
+    reader.int64('access hash');
+    decoded.hasAccessHash = true;
+  } else {
+    decoded.mediaId = reader.int64('media ID').toString();
+    reader.int64('access hash');
+    decoded.hasAccessHash = true;
+
+    // Newer photo IDs say which size of the photo they point to
+    if (PHOTO_TYPES.has(type) && version >= 4) {
+      const sourceId = reader.int32('photo size source');
+      decoded.photoSource = PHOTO_SOURCES[sourceId] ?? `unknown (${sourceId})`;
+
+      if (decoded.photoSource === 'thumbnail') {
+        reader.int32('thumbnail file type');
+        decoded.thumbnailType = String.fromCharCode(reader.int32('thumbnail type'));
+      }
+    }
+  }
+
+  decoded.trailingBytes = reader.remaining;
+  return decoded;
+}
+
+/**
+ * Decodes a Bot API file_unique_id without calling Telegram
+ *
+ * @throws An error naming the problem if the ID is corrupt or of an unknown kind
+ */
+export function decodeFileUniqueId(fileUniqueId: string): DecodedFileUniqueId {
+  const reader = new ByteReader(decodeZeroRuns(decodeBase64Url(fileUniqueId)));
+
+  const typeId = reader.int32('type');
+  const type = UNIQUE_ID_TYPES[typeId];
+  if (type === undefined) {
+    throw new Error(`Unknown file_unique_id type ${typeId}`);
+  }
+
+  const decoded: DecodedFileUniqueId = { typeId, type };
+  if (type === 'web') {
+    decoded.url = new TextDecoder().decode(reader.tlBytes('URL'));
+  } else {
+    decoded.mediaId = reader.int64('media ID').toString();
+  }
+
+  if (reader.remaining > 0) {
+    decoded.extra = toHex(reader.rest());
+  }
+
+  return decoded;
+}
+
+/**
+ * Decodes a file_id or a file_unique_id, telling them apart by length first
+ * and trying the other kind if that fails
+ *
+ * @throws The error of the more likely kind if the ID is neither
+ */
+export function decodeFileIdentifier(id: string): DecodedFileIdentifier {
+  const decoders = [
+    (): DecodedFileIdentifier => ({ kind: 'file_id', decoded: decodeFileId(id) }),
+    (): DecodedFileIdentifier => ({ kind: 'file_unique_id', decoded: decodeFileUniqueId(id) }),
+  ];
+
+  // file_unique_ids are short, file_ids carry at least a media ID and an access hash
+  if (decodeZeroRuns(decodeBase64Url(id)).length < MIN_FILE_ID_LENGTH) {
+    decoders.reverse();
+  }
+
+  try {
+    return decoders[0]();
+  } catch (error) {
+    try {
+      return decoders[1]();
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Get the kind of file_unique_id a file type has, so file_ids and file_unique_ids can be compared
+ */
+function getUniqueType(type: string): string {
+  if (PHOTO_TYPES.has(type)) {
+    return 'photo';
+  }
+  if (type === 'encrypted' || type === 'temp') {
+    return type;
+  }
+  return type === 'secure' || type === 'secure_raw' ? 'secure' : 'document';
+}
+
+/**
+ * Get a key that is equal for identifiers of the same photo or document.
+ * Different sizes of a photo share their media ID, so they count as the same photo.
+ */
+export function getMediaKey(identifier: DecodedFileIdentifier): string {
+  const { decoded } = identifier;
+  const uniqueType = identifier.kind === 'file_id' ? getUniqueType(identifier.decoded.type) : identifier.decoded.type;
+  return `${uniqueType}:${decoded.url ?? decoded.mediaId}`;
+}
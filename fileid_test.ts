@@ -0,0 +1,76 @@
+import { assertEquals, assertThrows } from "./dev_deps.ts";
+import { decodeFileId, decodeFileIdentifier, decodeFileUniqueId, getMediaKey } from "./fileid.ts";
+
+/**
+ * file_id of a document in DC 4, with a file reference (version 4.47)
+ */
+const DOCUMENT_FILE_ID = 'BQACAgQAAx0BAgMEBQYHCAkKCwwNDg8QERITFBUWFxgZGhscHQACTvMk680sGkc1-wSO4P7__y8E';
+
+/**
+ * file_unique_id of the same document
+ */
+const DOCUMENT_FILE_UNIQUE_ID = 'AgADTvMk680sGkc';
+
+/**
+ * file_id of the "y" thumbnail of a photo in DC 2 (version 4.47)
+ */
+const PHOTO_FILE_ID = 'AgACAgIAAx0BAgMEBQYHCAkKCwwNDg8QERITFBUWFxgZGhscHQACh0vDSYokcFOxaN46AAQBAAMCAAN5AAMvBA';
+
+/**
+ * file_unique_id of the same photo size
+ */
+const PHOTO_FILE_UNIQUE_ID = 'AQADh0vDSYokcFNA4gEAAQ';
+
+Deno.test("decodeFileId reads a document file_id", () => {
+  assertEquals(decodeFileId(DOCUMENT_FILE_ID), {
+    version: 4,
+    subVersion: 47,
+    typeId: 5,
+    type: 'document',
+    dcId: 4,
+    fileReferenceLength: 29,
+    mediaId: '5123456789012345678',
+    hasAccessHash: true,
+    trailingBytes: 0
+  });
+});
+
+Deno.test("decodeFileId reads a photo file_id with its size", () => {
+  const decoded = decodeFileId(PHOTO_FILE_ID);
+
+  assertEquals(decoded.type, 'photo');
+  assertEquals(decoded.dcId, 2);
+  assertEquals(decoded.mediaId, '6012345678901234567');
+  assertEquals(decoded.photoSource, 'thumbnail');
+  assertEquals(decoded.thumbnailType, 'y');
+  assertEquals(decoded.trailingBytes, 0);
+});
+
+Deno.test("decodeFileId rejects truncated and unknown IDs", () => {
+  assertThrows(() => decodeFileId(DOCUMENT_FILE_ID.slice(0, 40)), Error);
+  assertThrows(() => decodeFileId('not a file id'), Error, 'base64url');
+});
+
+Deno.test("decodeFileUniqueId reads document and photo IDs", () => {
+  assertEquals(decodeFileUniqueId(DOCUMENT_FILE_UNIQUE_ID), {
+    typeId: 2,
+    type: 'document',
+    mediaId: '5123456789012345678'
+  });
+  assertEquals(decodeFileUniqueId(PHOTO_FILE_UNIQUE_ID), {
+    typeId: 1,
+    type: 'photo',
+    mediaId: '6012345678901234567',
+    extra: '40e20100'
+  });
+});
+
+Deno.test("decodeFileIdentifier tells file_id and file_unique_id apart", () => {
+  const fileId = decodeFileIdentifier(DOCUMENT_FILE_ID);
+  const uniqueId = decodeFileIdentifier(DOCUMENT_FILE_UNIQUE_ID);
+
+  assertEquals(fileId.kind, 'file_id');
+  assertEquals(uniqueId.kind, 'file_unique_id');
+  assertEquals(getMediaKey(fileId), getMediaKey(uniqueId));
+  assertEquals(getMediaKey(decodeFileIdentifier(PHOTO_FILE_ID)), getMediaKey(decodeFileIdentifier(PHOTO_FILE_UNIQUE_ID)));
+});
@@ -0,0 +1,203 @@
+import { Message } from "./deps.ts";
+
+/**
+ * The file a message carries, in the size getFile is called for
+ */
+export interface MessageFile {
+  /**
+   * Kind of media, e.g. photo or voice
+   */
+  kind: string;
+
+  /**
+   * ID to download the file with
+   */
+  fileId: string;
+
+  /**
+   * ID that stays the same across bots and over time
+   */
+  fileUniqueId: string;
+
+  /**
+   * Size in bytes, if Telegram sent it
+   */
+  fileSize?: number;
+
+  /**
+   * MIME type the message declares or that Telegram always uses for this kind of media
+   */
+  declaredType?: string;
+
+  /**
+   * Which of several sizes was chosen, e.g. "largest of 4 sizes, 1280×720"
+   */
+  variant?: string;
+}
+
+/**
+ * The result of downloading a file
+ */
+export interface FileCheck {
+  /**
+   * SHA-256 of the content as lowercase hex
+   */
+  sha256: string;
+
+  /**
+   * Number of bytes downloaded
+   */
+  size: number;
+
+  /**
+   * MIME type detected from the first bytes, if they are a known signature
+   */
+  detectedType?: string;
+}
+
+/**
+ * Largest file the Bot API lets bots download
+ */
+export const DOWNLOAD_LIMIT = 20 * 1024 * 1024;
+
+/**
+ * How long a download may take before it is given up
+ */
+const DOWNLOAD_TIMEOUT = 60_000;
+
+/**
+ * File signatures by MIME type. Null bytes in a pattern match anything.
+ */
+const SIGNATURES: [type: string, offset: number, pattern: (number | null)[]][] = [
+  ['image/jpeg', 0, [0xFF, 0xD8, 0xFF]],
+  ['image/png', 0, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]],
+  ['image/gif', 0, [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', 0, [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  ['audio/wav', 0, [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45]],
+  ['application/pdf', 0, [0x25, 0x50, 0x44, 0x46]],
+  ['application/zip', 0, [0x50, 0x4B, 0x03, 0x04]],
+  ['application/gzip', 0, [0x1F, 0x8B]],
+  ['audio/ogg', 0, [0x4F, 0x67, 0x67, 0x53]],
+  ['audio/flac', 0, [0x66, 0x4C, 0x61, 0x43]],
+  ['audio/mpeg', 0, [0x49, 0x44, 0x33]],
+  ['audio/mpeg', 0, [0xFF, 0xFB]],
+  ['video/webm', 0, [0x1A, 0x45, 0xDF, 0xA3]],
+  ['video/quicktime', 4, [0x66, 0x74, 0x79, 0x70, 0x71, 0x74, 0x20, 0x20]],
+  ['audio/mp4', 4, [0x66, 0x74, 0x79, 0x70, 0x4D, 0x34, 0x41]],
+  ['video/mp4', 4, [0x66, 0x74, 0x79, 0x70]],
+];
+
+/**
+ * Finds the file of a photo, document, video, animation, audio, voice note, video note or sticker.
+ * Photos use their largest size, which is the last one.
+ */
+export function getMessageFile(message: Message): MessageFile | undefined {
+  if (message.photo?.length) {
+    const largest = message.photo[message.photo.length - 1];
+    return {
+      kind: 'photo',
+      fileId: largest.file_id,
+      fileUniqueId: largest.file_unique_id,
+      fileSize: largest.file_size,
+      // Telegram recompresses photos to JPEG
+      declaredType: 'image/jpeg',
+      variant: `largest of ${message.photo.length} sizes, ${largest.width}×${largest.height}`
+    };
+  }
+
+  if (message.sticker) {
+    const sticker = message.sticker;
+    return {
+      kind: 'sticker',
+      fileId: sticker.file_id,
+      fileUniqueId: sticker.file_unique_id,
+      fileSize: sticker.file_size,
+      declaredType: sticker.is_animated ? 'application/x-tgsticker' : sticker.is_video ? 'video/webm' : 'image/webp'
+    };
+  }
+
+  if (message.video_note) {
+    return {
+      kind: 'video_note',
+      fileId: message.video_note.file_id,
+      fileUniqueId: message.video_note.file_unique_id,
+      fileSize: message.video_note.file_size,
+      declaredType: 'video/mp4'
+    };
+  }
+
+  // Animations also carry a document, so they are checked first
+  const media = message.animation ?? message.video ?? message.audio ?? message.voice ?? message.document;
+  if (media) {
+    const kind = message.animation ? 'animation' : message.video ? 'video' : message.audio ? 'audio' :
+      message.voice ? 'voice' : 'document';
+    return {
+      kind,
+      fileId: media.file_id,
+      fileUniqueId: media.file_unique_id,
+      fileSize: media.file_size,
+      declaredType: media.mime_type
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Detects the MIME type of a file from its first bytes
+ *
+ * @returns The MIME type, or undefined if the signature isn't known
+ */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  const match = SIGNATURES.find(([, offset, pattern]) =>
+    bytes.length >= offset + pattern.length &&
+    pattern.every((byte, index) => byte === null || bytes[offset + index] === byte)
+  );
+
+  return match?.[0];
+}
+
+/**
+ * Checks whether a detected MIME type agrees with the declared one.
+ * Animated stickers are gzipped Lottie files, so gzip matches them.
+ */
+export function mimeTypesMatch(declared: string, detected: string): boolean {
+  if (declared === 'application/x-tgsticker') {
+    return detected === 'application/gzip';
+  }
+
+  // Compare without parameters, e.g. audio/ogg; codecs=opus
+  return declared.split(';')[0].trim().toLowerCase() === detected;
+}
+
+/**
+ * Downloads a file from the Bot API and checks its content
+ *
+ * @param token - The bot token
+ * @param filePath - file_path returned by getFile
+ * @throws An error if the download fails or times out
+ */
+export async function downloadAndCheckFile(token: string, filePath: string): Promise<FileCheck> {
+  let response: Response;
+  try {
+    response = await fetch(`https://api.telegram.org/file/bot${token}/${filePath}`, {
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT)
+    });
+  } catch (error) {
+    // Network errors quote the URL, which contains the token
+    const reason = (error as Error).name === 'TimeoutError' ? 'timed out' : 'failed';
+    throw new Error(`Download ${reason}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+  return {
+    sha256: Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join(''),
+    size: bytes.length,
+    detectedType: detectMimeType(bytes)
+  };
+}
@@ -0,0 +1,582 @@
+import { escapeHtml, InlineKeyboardMarkup, Message, MessageEntity, Update } from "./deps.ts";
+import {
+  isMessageOriginUser,
+  isMessageOriginHiddenUser,
+  isMessageOriginChat,
+  isMessageOriginChannel,
+  isMessageOriginUnknown
+} from "./typeGuards.ts";
+import { AnyMessageOrigin } from "./types.ts";
+import { InspectionParts, MESSAGE_LENGTH_LIMIT, visibleLength } from "./overflow.ts";
+import { annotateEntities, countCodePoints, describeEntities } from "./entities.ts";
+import { PrivacyMasker } from "./privacy.ts";
+import { diffMessages, renderMessageDiff } from "./diff.ts";
+import { parsePath, PathSegment, pickPaths } from "./query.ts";
+import { serializeRaw } from "./serialize.ts";
+import { findTimestamps, formatIsoTimestamp, formatRelativeTime } from "./timestamps.ts";
+import { formatFileSize, MessageSummary, summarizeMessage, SummaryField } from "./summary.ts";
+import { DecodedFileIdentifier, decodeFileIdentifier } from "./fileid.ts";
+import { AuthDataCheck, MAX_AUTH_AGE } from "./webauth.ts";
+import { CALLBACK_DATA_LIMIT, CallbackDataDescription, describeCallbackData, describeInlineKeyboard } from "./markup.ts";
+import { FileCheck, getMessageFile, MessageFile, mimeTypesMatch } from "./files.ts";
+import { generateInterfaces } from "./typegen.ts";
+import { getUpdateKind, getUpdateMessage } from "./updates.ts";
+import { ViewPreferences } from "./session.ts";
+
+/**
+ * Formats a message summary as HTML lines, starting with the message type
+ */
+function formatSummary(summary: MessageSummary): string {
+  let text = `<b>Type:</b> ${summary.type}\n`;
+  
+  for (const [label, value] of summary.fields) {
+    text += `<b>${label}:</b> <code>${escapeHtml(value)}</code>\n`;
+  }
+  
+  return text;
+}
+
+/**
+ * Shortens text to at most max UTF-16 code units plus an ellipsis, without splitting a surrogate pair
+ */
+function shorten(text: string, max: number): string {
+  if (text.length <= max) {
+    return text;
+  }
+  
+  const code = text.charCodeAt(max - 1);
+  const end = code >= 0xD800 && code <= 0xDBFF ? max - 1 : max;
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * Maximum number of entities listed per text, the annotated text still marks all of them
+ */
+const MAX_LISTED_ENTITIES = 20;
+
+/**
+ * Maximum length of the text and details shown for each listed entity
+ */
+const MAX_ENTITY_TEXT_LENGTH = 100;
+
+/**
+ * Maximum visible length of an entities section, so the rest of the header
+ * still fits in the same message
+ */
+const ENTITIES_SECTION_BUDGET = MESSAGE_LENGTH_LIMIT / 2;
+
+/**
+ * Formats the entities of a text or caption as an HTML section, listing each entity
+ * with its UTF-16 offset and length, followed by the text annotated with entity markers.
+ * Entities are listed until the section reaches ENTITIES_SECTION_BUDGET.
+ */
+function formatEntities(title: string, text: string, entities: MessageEntity[]): string {
+  let entitiesText = `<b>🏷 ${title}</b>\n`;
+  entitiesText += `<i>${text.length} UTF-16 code units, ${countCodePoints(text)} code points</i>\n`;
+  
+  // The annotated text gets at most half of the section, the list the rest
+  const annotationText = `<pre>${escapeHtml(shorten(annotateEntities(text, entities), ENTITIES_SECTION_BUDGET / 2))}</pre>\n\n`;
+  let remaining = ENTITIES_SECTION_BUDGET - visibleLength(entitiesText + annotationText);
+  
+  const descriptions = describeEntities(text, entities);
+  let listed = 0;
+  for (const description of descriptions.slice(0, MAX_LISTED_ENTITIES)) {
+    const { index, entity } = description;
+    let entityText = `${index}. <b>${entity.type}</b> offset ${entity.offset}, length ${entity.length}: ` +
+      `<code>${escapeHtml(shorten(description.text, MAX_ENTITY_TEXT_LENGTH))}</code>\n`;
+    
+    for (const [label, value] of description.details) {
+      entityText += `    ${label}: <code>${escapeHtml(shorten(value, MAX_ENTITY_TEXT_LENGTH))}</code>\n`;
+    }
+    
+    for (const problem of description.problems) {
+      entityText += `    ⚠️ ${problem}\n`;
+    }
+    
+    remaining -= visibleLength(entityText);
+    if (remaining < 0) {
+      break;
+    }
+    entitiesText += entityText;
+    listed++;
+  }
+  
+  if (descriptions.length > listed) {
+    entitiesText += `<i>…and ${descriptions.length - listed} more</i>\n`;
+  }
+  
+  return entitiesText + annotationText;
+}
+
+/**
+ * Maximum number of buttons listed with their details
+ */
+const MAX_LISTED_BUTTONS = 20;
+
+/**
+ * Maximum length of a button's text in the grid
+ */
+const MAX_GRID_BUTTON_LENGTH = 20;
+
+/**
+ * Maximum length of a button's text, target or callback_data reading in the list
+ */
+const MAX_BUTTON_VALUE_LENGTH = 100;
+
+/**
+ * Maximum visible length of a keyboard section, so the rest of the header
+ * still fits in the same message
+ */
+const KEYBOARD_SECTION_BUDGET = MESSAGE_LENGTH_LIMIT / 2;
+
+/**
+ * Formats callback_data with its size and each way it could be read
+ */
+function formatCallbackData(description: CallbackDataDescription, indent: string): string {
+  let dataText = `<code>${escapeHtml(description.data)}</code> ` +
+    `(${description.byteLength}/${CALLBACK_DATA_LIMIT} bytes${description.overLimit ? " ⚠️ over the limit" : ""})\n`;
+  
+  for (const reading of description.readings) {
+    dataText += `${indent}as ${reading.format.replace('_', '/')}: ` +
+      `<code>${escapeHtml(shorten(reading.value, MAX_BUTTON_VALUE_LENGTH))}</code>\n`;
+  }
+  
+  return dataText;
+}
+
+/**
+ * Formats an inline keyboard as an HTML section: the first rows drawn as a grid,
+ * then the buttons with their kind, target and decoded callback_data.
+ * The grid gets at most half of KEYBOARD_SECTION_BUDGET, the list the rest.
+ */
+function formatKeyboard(markup: InlineKeyboardMarkup): string {
+  const rows = describeInlineKeyboard(markup);
+  const buttons = rows.flat();
+  if (buttons.length === 0) {
+    return "";
+  }
+  
+  let keyboardText = `<b>⌨️ INLINE KEYBOARD</b> <i>(${rows.length} rows, ${buttons.length} buttons)</i>\n`;
+  
+  const grid: string[] = [];
+  let gridLength = 0;
+  for (const row of rows) {
+    const line = row.map((button) => `[ ${shorten(button.text, MAX_GRID_BUTTON_LENGTH)} ]`).join(' ');
+    gridLength += line.length + 1;
+    if (gridLength > KEYBOARD_SECTION_BUDGET / 2) {
+      break;
+    }
+    grid.push(line);
+  }
+  if (rows.length > grid.length) {
+    grid.push(`…and ${rows.length - grid.length} more rows`);
+  }
+  keyboardText += `<pre>${escapeHtml(grid.join('\n'))}</pre>\n`;
+  
+  let remaining = KEYBOARD_SECTION_BUDGET - visibleLength(keyboardText);
+  let listed = 0;
+  for (const button of buttons.slice(0, MAX_LISTED_BUTTONS)) {
+    let buttonText = `${button.row}.${button.column} <b>${escapeHtml(shorten(button.text, MAX_BUTTON_VALUE_LENGTH))}</b>: ${button.kind}`;
+    if (button.callbackData) {
+      buttonText += ` ${formatCallbackData(button.callbackData, "    ")}`;
+    } else {
+      buttonText += button.value !== undefined
+        ? ` <code>${escapeHtml(shorten(button.value, MAX_BUTTON_VALUE_LENGTH))}</code>\n`
+        : "\n";
+    }
+    
+    remaining -= visibleLength(buttonText);
+    if (remaining < 0) {
+      break;
+    }
+    keyboardText += buttonText;
+    listed++;
+  }
+  
+  if (buttons.length > listed) {
+    keyboardText += `<i>…and ${buttons.length - listed} more</i>\n`;
+  }
+  
+  return keyboardText + "\n";
+}
+
+/**
+ * Maximum number of timestamps listed per inspection
+ */
+const MAX_LISTED_TIMESTAMPS = 20;
+
+/**
+ * Formats every timestamp of an update as an HTML section, each as ISO 8601
+ * in the user's time zone followed by how long ago it was
+ */
+function formatTimestamps(value: unknown, timeZone: string): string {
+  const timestamps = findTimestamps(value);
+  if (timestamps.length === 0) {
+    return "";
+  }
+  
+  let timestampsText = `<b>🕒 TIMESTAMPS</b> <i>(${escapeHtml(timeZone)})</i>\n`;
+  for (const field of timestamps.slice(0, MAX_LISTED_TIMESTAMPS)) {
+    const label = field.label ? ` (${field.label})` : "";
+    const time = field.timestamp === 0
+      ? "never"
+      : `<code>${formatIsoTimestamp(field.timestamp, timeZone)}</code>, ${formatRelativeTime(field.timestamp)}`;
+    timestampsText += `<b>${escapeHtml(field.path)}${label}:</b> ${time}\n`;
+  }
+  
+  if (timestamps.length > MAX_LISTED_TIMESTAMPS) {
+    timestampsText += `<i>…and ${timestamps.length - MAX_LISTED_TIMESTAMPS} more</i>\n`;
+  }
+  
+  return timestampsText + "\n";
+}
+
+/**
+ * Formats the result of verifying initData or Login Widget data as an HTML section
+ */
+export function formatAuthDataCheck(check: AuthDataCheck, timeZone: string): string {
+  let authText = check.kind === 'web_app'
+    ? `<b>🔐 MINI APP INIT DATA</b>\n`
+    : `<b>🔐 LOGIN WIDGET DATA</b>\n`;
+  
+  authText += check.valid
+    ? `<b>Hash:</b> ✅ valid, signed with this bot's token\n`
+    : `<b>Hash:</b> ❌ invalid, the data was changed or signed for another bot\n`;
+  
+  if (check.authDate !== undefined) {
+    authText += `<b>auth_date:</b> <code>${formatIsoTimestamp(check.authDate, timeZone)}</code>, ` +
+      `${formatRelativeTime(check.authDate)} ` +
+      (check.fresh ? "✅ fresh" : `⚠️ older than ${MAX_AUTH_AGE / 3600} h, reject it`) + "\n";
+  }
+  
+  for (const problem of check.problems) {
+    authText += `⚠️ ${escapeHtml(problem)}\n`;
+  }
+  
+  return authText + "\n";
+}
+
+/**
+ * Formats the result of downloading a file, comparing the detected and declared types
+ */
+export function formatFileCheck(file: MessageFile, check: FileCheck): string {
+  let checkText = `<b>⬇️ FILE DOWNLOAD</b>\n`;
+  checkText += `<b>SHA-256:</b> <code>${check.sha256}</code>\n`;
+  checkText += `<b>Size:</b> ${formatFileSize(check.size)} (${check.size} bytes)\n`;
+  checkText += `<b>Declared type:</b> <code>${escapeHtml(file.declaredType ?? 'none')}</code>\n`;
+  checkText += `<b>Detected type:</b> <code>${check.detectedType ?? 'unknown'}</code>`;
+  
+  if (file.declaredType && check.detectedType) {
+    checkText += mimeTypesMatch(file.declaredType, check.detectedType)
+      ? " ✅ matches"
+      : " ⚠️ differs from the declared type";
+  }
+  
+  return checkText;
+}
+
+/**
+ * Lists what a decoded file_id or file_unique_id says as label/value pairs
+ */
+export function describeFileIdentifier(identifier: DecodedFileIdentifier): SummaryField[] {
+  const fields: SummaryField[] = [];
+  
+  if (identifier.kind === 'file_id') {
+    const { decoded } = identifier;
+    fields.push(['Type', `${decoded.type} (${decoded.typeId})`]);
+    fields.push(['Version', decoded.subVersion !== undefined ? `${decoded.version}.${decoded.subVersion}` : `${decoded.version}`]);
+    fields.push(['DC', String(decoded.dcId)]);
+    if (decoded.mediaId !== undefined) {
+      fields.push(['Media ID', decoded.mediaId]);
+    }
+    if (decoded.url !== undefined) {
+      fields.push(['URL', decoded.url]);
+    }
+    fields.push(['Access hash', decoded.hasAccessHash ? 'present' : 'missing']);
+    fields.push(['File reference', decoded.fileReferenceLength !== undefined ? `${decoded.fileReferenceLength} bytes` : 'none']);
+    if (decoded.photoSource) {
+      fields.push(['Photo size', decoded.thumbnailType ? `${decoded.photoSource} (${decoded.thumbnailType})` : decoded.photoSource]);
+    }
+    if (decoded.trailingBytes > 0) {
+      fields.push(['Unparsed bytes', String(decoded.trailingBytes)]);
+    }
+  } else {
+    const { decoded } = identifier;
+    fields.push(['Type', `${decoded.type} (${decoded.typeId})`]);
+    if (decoded.mediaId !== undefined) {
+      fields.push(['Media ID', decoded.mediaId]);
+    }
+    if (decoded.url !== undefined) {
+      fields.push(['URL', decoded.url]);
+    }
+    if (decoded.extra) {
+      fields.push(['Size data', decoded.extra]);
+    }
+  }
+  
+  return fields;
+}
+
+/**
+ * Formats the decoded file_id and file_unique_id of a message's media as summary lines
+ */
+function formatFileIds(message: Message, masked: boolean): string {
+  const file = getMessageFile(message);
+  if (!file) {
+    return "";
+  }
+  
+  // Masked IDs can't be decoded, and decoding the real ones would reveal what masking hides
+  if (masked) {
+    return `<b>File IDs:</b> <i>masked</i>\n`;
+  }
+  
+  let fileIdText = "";
+  for (const [label, id] of [['file_id', file.fileId], ['file_unique_id', file.fileUniqueId]]) {
+    try {
+      const fields = describeFileIdentifier(decodeFileIdentifier(id));
+      fileIdText += `<b>${label}:</b> ` +
+        fields.map(([name, value]) => `${name.toLowerCase()} <code>${escapeHtml(value)}</code>`).join(", ") + "\n";
+    } catch (error) {
+      fileIdText += `<b>${label}:</b> ⚠️ ${escapeHtml((error as Error).message)}\n`;
+    }
+  }
+  
+  return fileIdText;
+}
+
+/**
+ * Parses the paths of a path filter, skipping any that are no longer valid
+ */
+function parsePathFilter(pathFilter: string[]): PathSegment[][] {
+  return pathFilter.flatMap((path) => {
+    try {
+      return [parsePath(path)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Formats the update information into HTML sections for replying.
+ *
+ * @param update - The raw update object from Telegram.
+ * @param preferences - View preferences for formatting
+ * @param author - The ID of the message author (optional).
+ * @param forward - The forward origin object (optional).
+ * @param dump - Object to show as raw JSON instead of the update (optional).
+ * @param previous - The version of an edited message before the edit, to show a diff (optional).
+ * @param timeZone - Time zone to show timestamps in (optional, UTC by default).
+ * @returns The formatted sections, with the raw JSON kept separate so long updates can be split.
+ */
+export function prettifyUpdate(
+  update: Update, // Replace 'any' with 'Update' type
+  preferences: ViewPreferences,
+  author?: number,
+  forward?: AnyMessageOrigin,
+  dump?: object,
+  previous?: Message,
+  timeZone = 'UTC'
+): InspectionParts {
+  let forwardText = "";
+  let authorText = "";
+  let updateText = "";
+  let payload: string | undefined;
+  let payloadTitle = dump ? "<b>🔎 INSPECTED MESSAGE</b>" : "<b>🔄 RAW UPDATE</b>";
+  let payloadLanguage: InspectionParts['payloadLanguage'];
+  let footer = "";
+
+  // Mask sensitive fields before anything is rendered,
+  // sharing one masker so pseudonyms match across all sections
+  const masker = new PrivacyMasker(preferences.privacyOptions);
+  const maskedUpdate = masker.mask(update);
+  const maskedDump = dump && masker.mask(dump);
+  const maskedForward = forward && masker.mask(forward, 'forward_origin');
+  const maskedAuthor = author && masker.maskUserId(author);
+
+  // Format forward information if available and enabled
+  if (maskedForward && preferences.showForwardInfo) {
+    forwardText = "<b>📨 FORWARDED MESSAGE</b>\n";
+    
+    if (isMessageOriginUser(maskedForward)) {
+      const sender = maskedForward.sender_user;
+      forwardText += `<b>From User:</b>\nName: ${escapeHtml(
+        sender.first_name
+      )} ${escapeHtml(sender.last_name || "")}\nID: <code>${sender.id}</code>\n\n`;
+    } else if (isMessageOriginHiddenUser(maskedForward)) {
+      forwardText += `<b>From Hidden User:</b>\nName: ${escapeHtml(
+        maskedForward.sender_user_name
+      )}\n\n`;
+    } else if (isMessageOriginChat(maskedForward)) {
+      forwardText += `<b>From Chat:</b>\nTitle: ${escapeHtml(
+        maskedForward.sender_chat.title ?? "No Chat Title"
+      )}\nID: <code>${maskedForward.sender_chat.id}</code>\n`;
+      if (maskedForward.author_signature) {
+        forwardText += `Author Signature: ${escapeHtml(
+          maskedForward.author_signature
+        )}\n\n`;
+      } else {
+        forwardText += `\n`;
+      }
+    } else if (isMessageOriginChannel(maskedForward)) {
+      forwardText += `<b>From Channel:</b>\nTitle: ${escapeHtml(
+        maskedForward.chat.title
+      )}\nID: <code>${maskedForward.chat.id}</code>\nOriginal Message ID: <code>${
+        maskedForward.message_id
+      }</code>\n`;
+      if (maskedForward.author_signature) {
+        forwardText += `Author Signature: ${escapeHtml(
+          maskedForward.author_signature
+        )}\n\n`;
+      } else {
+        forwardText += `\n`;
+      }
+    } else if (isMessageOriginUnknown(maskedForward)) {
+      forwardText += `<b>From Unknown Origin Type:</b> ${escapeHtml(
+        maskedForward.type
+      )}\n\n`;
+    } else {
+      // This block is theoretically unreachable but added for exhaustive type checking
+      forwardText += `<b>From an unrecognized origin.</b>\n\n`;
+    }
+  }
+
+  // Add author information if available and enabled
+  if (maskedAuthor && preferences.showAuthorInfo) {
+    authorText = `<b>👤 AUTHOR</b>\n<b>ID:</b> <code>${maskedAuthor}</code>\n\n`;
+  }
+
+  // The message carried by the update (message, edit, channel or business post)
+  const message = getUpdateMessage(maskedUpdate);
+  const updateKind = getUpdateKind(update) ?? 'unknown';
+
+  // Add what an edit changed if the previous version is known
+  let diffText = "";
+  if (message && previous) {
+    diffText = renderMessageDiff(diffMessages(masker.mask(previous), message));
+  }
+
+  // Add the inline keyboard and pressed callback_data if enabled
+  let keyboardText = "";
+  if (preferences.showKeyboard) {
+    if (message?.reply_markup) {
+      keyboardText += formatKeyboard(message.reply_markup);
+    }
+    
+    const pressed = maskedUpdate.callback_query?.data;
+    if (pressed !== undefined) {
+      keyboardText += `<b>⌨️ PRESSED BUTTON</b>\n<b>callback_data:</b> ${formatCallbackData(describeCallbackData(pressed), "")}\n`;
+    }
+  }
+
+  // Add the entities of the text and caption if enabled
+  let entitiesText = "";
+  if (message && preferences.showEntities) {
+    if (message.text && message.entities?.length) {
+      entitiesText += formatEntities("ENTITIES", message.text, message.entities);
+    }
+    if (message.caption && message.caption_entities?.length) {
+      entitiesText += formatEntities("CAPTION ENTITIES", message.caption, message.caption_entities);
+    }
+  }
+
+  // Add the timestamps in the user's time zone if enabled
+  let timestampsText = "";
+  if (preferences.showTimestamps) {
+    timestampsText = formatTimestamps(maskedDump ?? maskedUpdate, timeZone);
+  }
+
+  // Add compact information for compact mode
+  if (preferences.displayMode === 'compact') {
+    // Add message type, content summary and ID
+    updateText = `<b>📝 MESSAGE INFO</b>\n`;
+    updateText += `<b>Update:</b> <code>${updateKind}</code>\n`;
+    
+    if (message) {
+      updateText += formatSummary(summarizeMessage(message));
+    }
+    
+    if (message && preferences.showFileIds) {
+      updateText += formatFileIds(message, preferences.privacyOptions.maskFileIds);
+    }
+    
+    if (message?.message_id) {
+      updateText += `<b>Message ID:</b> <code>${message.message_id}</code>\n`;
+    }
+    
+    updateText += `<b>Chat ID:</b> <code>${message?.chat?.id || 'Unknown'}</code>\n\n`;
+  }
+
+  // Add full information for full mode
+  if (preferences.displayMode === 'full') {
+    // First add the compact info
+    updateText = `<b>📝 DETAILED MESSAGE INFO</b>\n`;
+    updateText += `<b>Update:</b> <code>${updateKind}</code>\n`;
+    
+    if (message) {
+      updateText += formatSummary(summarizeMessage(message));
+    }
+    
+    if (message && preferences.showFileIds) {
+      updateText += formatFileIds(message, preferences.privacyOptions.maskFileIds);
+    }
+    
+    if (message?.message_id) {
+      updateText += `<b>Message ID:</b> <code>${message.message_id}</code>\n`;
+    }
+    
+    updateText += `<b>Chat ID:</b> <code>${message?.chat?.id || 'Unknown'}</code>\n\n`;
+    
+    // Then add the raw JSON too
+    payload = JSON.stringify(maskedDump ?? maskedUpdate, null, 2);
+  }
+
+  // Add the raw update for raw mode, limited to the path filter if one is set
+  if (preferences.displayMode === 'raw') {
+    let raw: unknown = maskedDump ?? maskedUpdate;
+    const paths = parsePathFilter(preferences.pathFilter);
+    if (paths.length > 0) {
+      raw = pickPaths(raw, paths) ?? {};
+      payloadTitle += ` <i>(filtered: ${escapeHtml(preferences.pathFilter.join(', '))})</i>`;
+    }
+    
+    // Serialize it in the chosen format
+    const serialized = serializeRaw(raw, preferences);
+    payload = serialized.payload;
+    payloadLanguage = serialized.language;
+  }
+
+  // Add inferred TypeScript interfaces for types mode (types hold no values, so nothing to mask)
+  if (preferences.displayMode === 'types') {
+    payload = generateInterfaces(dump ?? update, dump ? 'InspectedMessage' : 'Update');
+    payloadTitle = "<b>🧬 TYPESCRIPT TYPES</b>";
+    payloadLanguage = 'typescript';
+  }
+
+  // Add help text for compact mode
+  if (preferences.displayMode === 'compact') {
+    footer = `\n<i>Use the buttons below to customize the view.</i>`;
+  }
+
+  return {
+    header: forwardText + authorText + keyboardText + updateText + diffText + entitiesText + timestampsText,
+    payloadTitle,
+    payload,
+    payloadLanguage,
+    footer
+  };
+}
+
+/**
+ * Converts formatted HTML to plain text, dropping the tags and unescaping the text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
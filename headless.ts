@@ -0,0 +1,191 @@
+import { Update } from "./deps.ts";
+import { AnyMessageOrigin } from "./types.ts";
+import { htmlToText, prettifyUpdate } from "./formatter.ts";
+import { joinInspection } from "./overflow.ts";
+import { PRIVACY_TOGGLES } from "./privacy.ts";
+import { getDefaultViewPreferences, ViewPreferences } from "./session.ts";
+import { isValidTimezone } from "./timestamps.ts";
+import { getUpdateMessage, getUpdateSender } from "./updates.ts";
+
+/**
+ * Output formats of the inspection API
+ * - 'html': The inspection as the bot would send it
+ * - 'text': The same without formatting
+ * - 'json': The sections separately, with the payload unescaped
+ */
+export type InspectOutputFormat = 'html' | 'text' | 'json';
+
+/**
+ * How an update should be rendered, read from the query parameters
+ */
+export interface InspectOptions {
+  /**
+   * View preferences to render with
+   */
+  preferences: ViewPreferences;
+
+  /**
+   * Time zone of the timestamps section
+   */
+  timeZone: string;
+
+  /**
+   * Format of the response
+   */
+  format: InspectOutputFormat;
+}
+
+/**
+ * A rendered inspection ready to be returned
+ */
+export interface RenderedInspection {
+  body: string;
+  contentType: string;
+}
+
+/**
+ * Display modes accepted by the mode parameter
+ */
+const DISPLAY_MODES: ViewPreferences['displayMode'][] = ['compact', 'full', 'raw', 'types'];
+
+/**
+ * Raw formats accepted by the raw_format parameter
+ */
+const RAW_FORMATS: ViewPreferences['rawFormat'][] = ['json', 'yaml', 'compact', 'flat', 'pruned'];
+
+/**
+ * Output formats accepted by the format parameter
+ */
+const OUTPUT_FORMATS: InspectOutputFormat[] = ['html', 'text', 'json'];
+
+/**
+ * Sections accepted by the sections parameter, named like their toggle buttons.
+ * File details need the Bot API, so they can't be shown here.
+ */
+const SECTIONS: Record<string, 'showForwardInfo' | 'showAuthorInfo' | 'showKeyboard' | 'showEntities' |
+  'showTimestamps' | 'showFileIds'> = {
+  forward: 'showForwardInfo',
+  author: 'showAuthorInfo',
+  keyboard: 'showKeyboard',
+  entities: 'showEntities',
+  timestamps: 'showTimestamps',
+  fileids: 'showFileIds',
+};
+
+/**
+ * Splits a comma-separated parameter, checking every value against the allowed ones
+ *
+ * @throws An error naming the unknown values
+ */
+function parseList(params: URLSearchParams, name: string, allowed: string[]): string[] | undefined {
+  const value = params.get(name);
+  if (value === null) {
+    return undefined;
+  }
+
+  const items = value.split(',').map((item) => item.trim()).filter((item) => item && item !== 'none');
+  const unknown = items.filter((item) => !allowed.includes(item));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ${name}: ${unknown.join(', ')}. Use any of ${allowed.join(', ')} or none`);
+  }
+  return items;
+}
+
+/**
+ * Reads a parameter that must be one of the allowed values
+ *
+ * @throws An error if it is another value
+ */
+function parseChoice<T extends string>(params: URLSearchParams, name: string, allowed: T[], fallback: T): T {
+  const value = params.get(name) ?? fallback;
+  if (!(allowed as string[]).includes(value)) {
+    throw new Error(`Unknown ${name} "${value}", use one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads the rendering options from the query parameters of an inspection request:
+ *
+ * - mode: compact, full, raw or types (default compact)
+ * - format: html, text or json (default html)
+ * - privacy: comma-separated privacy options to enable, e.g. user_ids,names, or none
+ * - sections: comma-separated sections to show, e.g. entities,timestamps, or none
+ * - raw_format: json, yaml, compact, flat or pruned (default json)
+ * - timezone: IANA time zone of the timestamps (default UTC)
+ *
+ * Options that aren't given keep the defaults of a private chat.
+ *
+ * @throws An error describing the first invalid parameter
+ */
+export function parseInspectOptions(params: URLSearchParams): InspectOptions {
+  const preferences = getDefaultViewPreferences();
+  preferences.displayMode = parseChoice(params, 'mode', DISPLAY_MODES, preferences.displayMode);
+  preferences.rawFormat = parseChoice(params, 'raw_format', RAW_FORMATS, preferences.rawFormat);
+
+  const privacy = parseList(params, 'privacy', PRIVACY_TOGGLES.map((toggle) => toggle.callback));
+  if (privacy) {
+    for (const toggle of PRIVACY_TOGGLES) {
+      preferences.privacyOptions[toggle.option] = privacy.includes(toggle.callback);
+    }
+  }
+
+  const sections = parseList(params, 'sections', Object.keys(SECTIONS));
+  if (sections) {
+    for (const [section, option] of Object.entries(SECTIONS)) {
+      preferences[option] = sections.includes(section);
+    }
+  }
+
+  const timeZone = params.get('timezone') ?? 'UTC';
+  if (!isValidTimezone(timeZone)) {
+    throw new Error(`Unknown timezone "${timeZone}", use an IANA name like Europe/Berlin`);
+  }
+
+  return { preferences, timeZone, format: parseChoice(params, 'format', OUTPUT_FORMATS, 'html') };
+}
+
+/**
+ * Parses a request body as an update
+ *
+ * @throws An error if it isn't JSON or doesn't look like an update
+ */
+export function parseUpdate(body: string): Update {
+  let update: unknown;
+  try {
+    update = JSON.parse(body);
+  } catch {
+    throw new Error('The body is not valid JSON');
+  }
+
+  if (update === null || typeof update !== 'object' || Array.isArray(update) ||
+    typeof (update as Update).update_id !== 'number') {
+    throw new Error('The body must be an Update object with a numeric update_id');
+  }
+  return update as Update;
+}
+
+/**
+ * Renders an update the way the bot would, taking the author
+ * and forward origin from the update itself
+ */
+export function renderInspection(update: Update, options: InspectOptions): RenderedInspection {
+  const parts = prettifyUpdate(
+    update,
+    options.preferences,
+    getUpdateSender(update),
+    getUpdateMessage(update)?.forward_origin as AnyMessageOrigin | undefined,
+    undefined,
+    undefined,
+    options.timeZone
+  );
+
+  switch (options.format) {
+    case 'html':
+      return { body: joinInspection(parts), contentType: 'text/html; charset=utf-8' };
+    case 'text':
+      return { body: htmlToText(joinInspection(parts)), contentType: 'text/plain; charset=utf-8' };
+    case 'json':
+      return { body: JSON.stringify(parts, null, 2), contentType: 'application/json' };
+  }
+}
@@ -0,0 +1,251 @@
+import { InlineKeyboardButton, InlineKeyboardMarkup } from "./deps.ts";
+
+/**
+ * What kind of action a button performs
+ */
+export type ButtonKind =
+  | 'callback'
+  | 'url'
+  | 'web_app'
+  | 'switch_inline'
+  | 'login'
+  | 'pay'
+  | 'game'
+  | 'copy_text'
+  | 'unknown';
+
+/**
+ * One way callback_data could be read
+ * - 'json': A JSON object or array
+ * - 'base64': Base64 or base64url encoded text
+ * - 'key_value': Pairs like a=1&b=2
+ * - 'fields': Values separated by a delimiter, like vote:42:up
+ */
+export interface CallbackDataReading {
+  format: 'json' | 'base64' | 'key_value' | 'fields';
+
+  /**
+   * The decoded content, ready to show
+   */
+  value: string;
+}
+
+/**
+ * callback_data with its size and possible readings
+ */
+export interface CallbackDataDescription {
+  /**
+   * The raw callback_data
+   */
+  data: string;
+
+  /**
+   * Length in UTF-8 bytes, which is what the limit counts
+   */
+  byteLength: number;
+
+  /**
+   * Whether the data exceeds the limit (only possible in data that didn't come from Telegram)
+   */
+  overLimit: boolean;
+
+  /**
+   * Readings that fit the data, most specific first
+   */
+  readings: CallbackDataReading[];
+}
+
+/**
+ * A button with its position and what it does
+ */
+export interface ButtonDescription {
+  /**
+   * Row of the button, starting at 1
+   */
+  row: number;
+
+  /**
+   * Position within the row, starting at 1
+   */
+  column: number;
+
+  /**
+   * Label of the button
+   */
+  text: string;
+
+  /**
+   * What kind of action the button performs
+   */
+  kind: ButtonKind;
+
+  /**
+   * The URL, inline query, copied text or similar the action uses
+   */
+  value?: string;
+
+  /**
+   * The decoded callback_data of callback buttons
+   */
+  callbackData?: CallbackDataDescription;
+}
+
+/**
+ * Maximum length of callback_data in bytes
+ */
+export const CALLBACK_DATA_LIMIT = 64;
+
+/**
+ * Shortest callback_data tried as base64, shorter strings are usually plain words
+ */
+const MIN_BASE64_LENGTH = 8;
+
+/**
+ * Delimiters tried for callback_data made of separate fields, most common first
+ */
+const FIELD_DELIMITERS = [':', '|', ';', ',', '/', '_', ' '];
+
+/**
+ * Checks whether a UTF-16 code unit is a control character other than tab and newline,
+ * or the replacement character left where the bytes weren't valid UTF-8
+ */
+function isUnreadableCode(code: number): boolean {
+  return code <= 0x08 || (code >= 0x0B && code <= 0x1F) || code === 0x7F || code === 0xFFFD;
+}
+
+/**
+ * Checks whether decoded text is readable, not random bytes that happen to be valid base64
+ */
+function isReadableText(text: string): boolean {
+  if (text.length === 0) {
+    return false;
+  }
+
+  for (let index = 0; index < text.length; index++) {
+    if (isUnreadableCode(text.charCodeAt(index))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Tries to read callback_data as base64 or base64url encoded UTF-8 text
+ */
+function decodeBase64Text(data: string): string | undefined {
+  if (data.length < MIN_BASE64_LENGTH || data.length % 4 === 1 || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(data)) {
+    return undefined;
+  }
+
+  // Plain words and numbers are valid base64 too, but never have mixed case and digits like encoded data
+  if (/^[a-z]+$/.test(data) || /^[A-Z]+$/.test(data) || /^\d+$/.test(data)) {
+    return undefined;
+  }
+
+  try {
+    const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, ''));
+    const text = new TextDecoder('utf-8', { fatal: true })
+      .decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    return isReadableText(text) ? text : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads callback_data in every format it plausibly is in
+ */
+export function describeCallbackData(data: string): CallbackDataDescription {
+  const byteLength = new TextEncoder().encode(data).length;
+  const readings: CallbackDataReading[] = [];
+
+  // JSON objects and arrays, plain numbers and strings aren't worth a reading
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed !== null && typeof parsed === 'object') {
+      readings.push({ format: 'json', value: JSON.stringify(parsed, null, 2) });
+    }
+  } catch {
+    // Not JSON
+  }
+
+  const decoded = decodeBase64Text(data);
+  if (decoded !== undefined) {
+    readings.push({ format: 'base64', value: decoded });
+  }
+
+  if (readings.length === 0) {
+    // Pairs like a=1&b=2 or a=1;b=2
+    const pairs = data.split(/[&;|,\s]+/).filter(Boolean);
+    if (pairs.length > 0 && pairs.every((pair) => /^[^=]+=/.test(pair))) {
+      readings.push({
+        format: 'key_value',
+        value: pairs.map((pair) => pair.replace('=', ' = ')).join('\n')
+      });
+    } else {
+      // Fields like vote:42:up, using the delimiter that appears most often
+      const counts = FIELD_DELIMITERS.map((delimiter) => data.split(delimiter).length - 1);
+      const most = Math.max(...counts);
+      if (most > 0) {
+        const delimiter = FIELD_DELIMITERS[counts.indexOf(most)];
+        readings.push({
+          format: 'fields',
+          value: data.split(delimiter).map((field, index) => `${index + 1}: ${field}`).join('\n')
+        });
+      }
+    }
+  }
+
+  return { data, byteLength, overLimit: byteLength > CALLBACK_DATA_LIMIT, readings };
+}
+
+/**
+ * Describes what a single button does
+ */
+function describeButton(button: InlineKeyboardButton): Pick<ButtonDescription, 'kind' | 'value' | 'callbackData'> {
+  if ('callback_data' in button) {
+    return { kind: 'callback', value: button.callback_data, callbackData: describeCallbackData(button.callback_data) };
+  }
+  if ('url' in button) {
+    return { kind: 'url', value: button.url };
+  }
+  if ('web_app' in button) {
+    return { kind: 'web_app', value: button.web_app.url };
+  }
+  if ('switch_inline_query' in button) {
+    return { kind: 'switch_inline', value: `any chat: ${button.switch_inline_query}` };
+  }
+  if ('switch_inline_query_current_chat' in button) {
+    return { kind: 'switch_inline', value: `current chat: ${button.switch_inline_query_current_chat}` };
+  }
+  if ('switch_inline_query_chosen_chat' in button) {
+    return { kind: 'switch_inline', value: `chosen chat: ${button.switch_inline_query_chosen_chat.query ?? ''}` };
+  }
+  if ('login_url' in button) {
+    return { kind: 'login', value: button.login_url.url };
+  }
+  if ('pay' in button) {
+    return { kind: 'pay' };
+  }
+  if ('callback_game' in button) {
+    return { kind: 'game' };
+  }
+  if ('copy_text' in button) {
+    return { kind: 'copy_text', value: button.copy_text.text };
+  }
+  return { kind: 'unknown' };
+}
+
+/**
+ * Describes every button of an inline keyboard, row by row
+ */
+export function describeInlineKeyboard(markup: InlineKeyboardMarkup): ButtonDescription[][] {
+  return markup.inline_keyboard.map((row, rowIndex) =>
+    row.map((button, columnIndex) => ({
+      row: rowIndex + 1,
+      column: columnIndex + 1,
+      text: button.text,
+      ...describeButton(button)
+    }))
+  );
+}
@@ -0,0 +1,265 @@
+import { StorageAdapter, Transformer } from "./deps.ts";
+
+/**
+ * Label values of one series, e.g. { type: 'message' }
+ */
+type Labels = Record<string, string>;
+
+/**
+ * A metric that can render itself in the Prometheus text format
+ */
+interface Metric {
+  render(): string;
+}
+
+/**
+ * Escapes a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Formats labels as {a="1",b="2"}, empty if there are none
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * A value that only goes up, kept per label combination
+ */
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  /**
+   * Adds to the series with the given labels
+   */
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [labels, value] of this.values) {
+      lines.push(`${this.name}${labels} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * A value that goes up and down, read when the metrics are rendered
+ */
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private readonly read: () => number) {}
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.read()}`
+    ].join('\n');
+  }
+}
+
+/**
+ * Durations in seconds counted into buckets, kept per label combination
+ */
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  /**
+   * Records a duration in the series with the given labels
+   */
+  observe(seconds: number, labels: Labels = {}) {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  /**
+   * Runs a function and records how long it took, also when it throws
+   */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe((performance.now() - started) / 1000, labels);
+    }
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      counts.forEach((bucketCount, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(this.buckets[index]) })} ${bucketCount}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Buckets for work done in memory, in seconds
+ */
+const FAST_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Buckets for calls that may go over the network, in seconds
+ */
+const SLOW_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Bot API calls that are waiting in the throttler or running
+ */
+let pendingApiCalls = 0;
+
+/**
+ * Bot API calls the throttler has let through and that are still running
+ */
+let runningApiCalls = 0;
+
+/**
+ * Chats whose last handled update had inspection enabled
+ */
+const enabledChats = new Set<string>();
+
+/**
+ * Updates received, by update type
+ */
+export const updatesReceived = new Counter('inspector_updates_received_total', 'Updates received by update type');
+
+/**
+ * Messages sent or edited by the bot, by Bot API method
+ */
+export const repliesSent = new Counter('inspector_replies_sent_total', 'Messages sent or edited by Bot API method');
+
+/**
+ * Failed Bot API calls, by method and error code ('network' if no response arrived)
+ */
+export const apiErrors = new Counter('inspector_api_errors_total', 'Failed Bot API calls by method and error code');
+
+/**
+ * Time spent formatting an inspection
+ */
+export const formatLatency = new Histogram(
+  'inspector_format_duration_seconds',
+  'Time spent formatting an update into an inspection',
+  FAST_BUCKETS
+);
+
+/**
+ * Time session storage takes, by operation
+ */
+export const storageLatency = new Histogram(
+  'inspector_session_storage_duration_seconds',
+  'Session storage latency by operation (read, write, delete)',
+  SLOW_BUCKETS
+);
+
+/**
+ * Every metric, in the order they are rendered
+ */
+const allMetrics: Metric[] = [
+  updatesReceived,
+  repliesSent,
+  apiErrors,
+  new Gauge(
+    'inspector_throttler_queue_depth',
+    'Bot API calls waiting in the throttler queue',
+    () => pendingApiCalls - runningApiCalls
+  ),
+  new Gauge('inspector_api_calls_in_flight', 'Bot API calls sent and waiting for a response', () => runningApiCalls),
+  formatLatency,
+  storageLatency,
+  new Gauge(
+    'inspector_enabled_chats',
+    'Chats with inspection enabled, among those seen since the start',
+    () => enabledChats.size
+  )
+];
+
+/**
+ * Renders all metrics in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return allMetrics.map((metric) => metric.render()).join('\n') + '\n';
+}
+
+/**
+ * Records whether a chat currently has inspection enabled
+ */
+export function setChatEnabled(key: string, enabled: boolean) {
+  if (enabled) {
+    enabledChats.add(key);
+  } else {
+    enabledChats.delete(key);
+  }
+}
+
+/**
+ * Transformer to install after the throttler, so it sees every call before it is queued.
+ * Counts replies and failed calls.
+ */
+export const trackApiCalls: Transformer = async (prev, method, payload, signal) => {
+  pendingApiCalls++;
+  try {
+    const result = await prev(method, payload, signal);
+    if (!result.ok) {
+      apiErrors.inc({ method, error_code: String(result.error_code) });
+    } else if (method.startsWith('send') || method.startsWith('editMessage')) {
+      repliesSent.inc({ method });
+    }
+    return result;
+  } catch (error) {
+    apiErrors.inc({ method, error_code: 'network' });
+    throw error;
+  } finally {
+    pendingApiCalls--;
+  }
+};
+
+/**
+ * Transformer to install before the throttler, so it only sees calls the throttler let through
+ */
+export const trackRunningApiCalls: Transformer = async (prev, method, payload, signal) => {
+  runningApiCalls++;
+  try {
+    return await prev(method, payload, signal);
+  } finally {
+    runningApiCalls--;
+  }
+};
+
+/**
+ * Wraps a storage adapter to record how long each operation takes
+ */
+export function timeStorage<T>(storage: StorageAdapter<T>): StorageAdapter<T> {
+  return {
+    read: (key) => storageLatency.time({ operation: 'read' }, async () => await storage.read(key)),
+    write: (key, value) => storageLatency.time({ operation: 'write' }, async () => await storage.write(key, value)),
+    delete: (key) => storageLatency.time({ operation: 'delete' }, async () => await storage.delete(key))
+  };
+}
@@ -0,0 +1,57 @@
+// migrate.ts
+//
+// Copies stored sessions from one storage backend to another.
+//
+// Usage:
+//   deno run --allow-net --allow-env --allow-read --allow-write --unstable-kv migrate.ts \
+//     --from=free --to=file [--from-path=...] [--to-path=...] [chat IDs...]
+//
+// The free hosted storage can't list its sessions, so pass the chat IDs to copy when migrating from it.
+
+import {
+  createStorage,
+  isStorageBackend,
+  migrateSessions,
+  STORAGE_BACKENDS,
+  StorageConfig
+} from "./storage.ts";
+
+/**
+ * Parses the value of a --name=value flag
+ */
+function getFlag(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Builds a storage configuration from the --<side> and --<side>-path flags
+ */
+function getConfig(args: string[], side: 'from' | 'to'): StorageConfig {
+  const backend = getFlag(args, side);
+  if (!backend || !isStorageBackend(backend)) {
+    throw new Error(`--${side} must be one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return { backend, path: getFlag(args, `${side}-path`) };
+}
+
+const args = Deno.args;
+const token = Deno.env.get("TOKEN") ?? "";
+
+const from = getConfig(args, 'from');
+const to = getConfig(args, 'to');
+if (from.backend === 'free' && !token) {
+  throw new Error("Env var TOKEN required to read from the free storage!");
+}
+
+// Everything that isn't a flag is a session key
+const keys = args.filter((arg) => !arg.startsWith('--'));
+
+const copied = await migrateSessions(
+  createStorage(from, token),
+  createStorage(to, token),
+  keys
+);
+
+console.log(`Copied ${copied} session(s) from ${from.backend} to ${to.backend}.`);
@@ -1,26 +1,205 @@
-import { serve, webhookCallback } from "./deps.ts";
+import { run, serve, webhookCallback } from "./deps.ts";
 import bot from "./bot.ts";
+import { parseInspectOptions, parseUpdate, renderInspection } from "./headless.ts";
+import { renderMetrics } from "./metrics.ts";
+import { constantTimeEquals } from "./webauth.ts";
+import { getAllowedUpdates, getWebhookConfig, readLimitedBody } from "./webhook.ts";
 
-// Initialize webhook handler
-const handleUpdate = webhookCallback(bot, "std/http");
+/**
+ * How the bot receives updates
+ * - 'webhook': Telegram posts updates to this server (default)
+ * - 'polling': The bot fetches updates itself, so no public HTTPS endpoint is needed
+ */
+const mode = Deno.env.get("BOT_MODE") ?? "webhook";
 
-// Start serving the webhook
-console.log("Starting bot webhook server...");
+/**
+ * Calls stop once when the process receives SIGINT or SIGTERM
+ */
+function onShutdown(stop: () => void) {
+  let stopping = false;
+  const listener = () => {
+    if (!stopping) {
+      stopping = true;
+      stop();
+    }
+  };
+
+  Deno.addSignalListener("SIGINT", listener);
+  if (Deno.build.os !== "windows") {
+    Deno.addSignalListener("SIGTERM", listener);
+  }
+}
+
+/**
+ * Serves the webhook endpoint Telegram posts updates to, registering the webhook first if configured
+ */
+async function startWebhook() {
+  const config = getWebhookConfig();
+  const allowedUpdates = getAllowedUpdates();
+
+  // Initialize webhook handler
+  const handleUpdate = webhookCallback(bot, "std/http");
+
+  // Ready once the token is checked and the webhook is registered
+  let ready = false;
+  const controller = new AbortController();
+
+  // Start serving the webhook
+  console.log("Starting bot webhook server...");
+
+  const server = serve(async (req: Request) => {
+    const { pathname } = new URL(req.url);
+
+    // Liveness: the server answers
+    if (pathname === "/healthz") {
+      return new Response("ok", { status: 200 });
+    }
+
+    // Readiness: updates can be handled
+    if (pathname === "/readyz") {
+      return ready
+        ? new Response("ready", { status: 200 })
+        : new Response("not ready", { status: 503 });
+    }
+
+    // Prometheus scrape endpoint
+    if (pathname === "/metrics") {
+      return new Response(renderMetrics(), {
+        status: 200,
+        headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }
+      });
+    }
+
+    // Render an update posted as JSON without Telegram, see headless.ts for the parameters.
+    // Only served when INSPECT_TOKEN is set, and only to requests that send it as a bearer token.
+    if (pathname === "/inspect" && config.inspectToken) {
+      if (req.method != "POST") {
+        return new Response("Method not allowed", { status: 405 });
+      }
+
+      // Check the token before reading the body, like the webhook secret
+      const authorization = req.headers.get("Authorization") ?? "";
+      if (!constantTimeEquals(authorization, `Bearer ${config.inspectToken}`)) {
+        return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+      }
+
+      const body = await readLimitedBody(req, config.maxBodySize);
+      if (!body) {
+        return new Response("Payload too large", { status: 413 });
+      }
+
+      let options;
+      let update;
+      try {
+        options = parseInspectOptions(new URL(req.url).searchParams);
+        update = parseUpdate(new TextDecoder().decode(body));
+      } catch (err) {
+        return new Response((err as Error).message, { status: 400 });
+      }
 
-serve(async (req: Request) => {
-  if (req.method == "POST") {
-    try {
-      return await handleUpdate(req);
-    } catch (err) {
-      console.error("Error handling update:", err);
-      return new Response();
+      try {
+        const rendered = renderInspection(update, options);
+        return new Response(rendered.body, { status: 200, headers: { "Content-Type": rendered.contentType } });
+      } catch (err) {
+        console.error("Error rendering inspection:", err);
+        return new Response("Internal server error", { status: 500 });
+      }
     }
+
+    if (req.method == "POST") {
+      // Check the secret before reading the body, so strangers can't make the server read anything
+      if (config.secretToken && !constantTimeEquals(req.headers.get("X-Telegram-Bot-Api-Secret-Token") ?? "", config.secretToken)) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      const body = await readLimitedBody(req, config.maxBodySize);
+      if (!body) {
+        return new Response("Payload too large", { status: 413 });
+      }
+
+      try {
+        return await handleUpdate(new Request(req.url, { method: "POST", headers: req.headers, body }));
+      } catch (err) {
+        console.error("Error handling update:", err);
+        return new Response();
+      }
+    }
+
+    // Handle ping or health check
+    if (req.method == "GET") {
+      return new Response("Bot is running", { status: 200 });
+    }
+
+    return new Response("Method not allowed", { status: 405 });
+  }, { signal: controller.signal });
+
+  // Check the token and register the webhook while the server already listens
+  await bot.init();
+  if (config.url) {
+    await bot.api.setWebhook(config.url, {
+      secret_token: config.secretToken,
+      allowed_updates: allowedUpdates,
+      max_connections: config.maxConnections,
+      drop_pending_updates: config.dropPendingUpdates
+    });
+    console.log(`Webhook set to ${config.url}`);
+  } else {
+    console.log("WEBHOOK_URL is not set, keeping the current webhook");
   }
-  
-  // Handle ping or health check
-  if (req.method == "GET") {
-    return new Response("Bot is running", { status: 200 });
+  ready = true;
+
+  // Only listen for signals when there is something to tear down, as not every host supports them
+  if (config.deleteOnShutdown) {
+    onShutdown(async () => {
+      console.log("Stopping bot...");
+      ready = false;
+      try {
+        await bot.api.deleteWebhook();
+        console.log("Webhook deleted");
+      } catch (error) {
+        console.error("Error deleting webhook:", error);
+      }
+      controller.abort();
+    });
   }
-  
-  return new Response("Method not allowed", { status: 405 });
-});
\ No newline at end of file
+
+  await server;
+  console.log("Bot stopped");
+}
+
+/**
+ * Fetches updates with long polling, handling several at once
+ * (in order per chat) until the process is asked to stop
+ */
+async function startPolling() {
+  const allowedUpdates = getAllowedUpdates();
+
+  // Telegram refuses getUpdates while a webhook is set
+  await bot.api.deleteWebhook();
+
+  console.log("Starting bot with long polling...");
+
+  // Ask for the configured update types, as reactions and chat members are only sent when requested
+  const runner = run(bot, {
+    runner: { fetch: { allowed_updates: allowedUpdates } }
+  });
+
+  // Finish the updates in progress before exiting
+  onShutdown(() => {
+    if (runner.isRunning()) {
+      console.log("Stopping bot...");
+      runner.stop();
+    }
+  });
+
+  await runner.task();
+  console.log("Bot stopped");
+}
+
+if (mode === "polling") {
+  await startPolling();
+} else if (mode === "webhook") {
+  await startWebhook();
+} else {
+  throw new Error(`Unknown BOT_MODE "${mode}", use "webhook" or "polling"`);
+}
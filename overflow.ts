@@ -0,0 +1,438 @@
+import { escapeHtml, InlineKeyboard, InputFile, Message } from "./deps.ts";
+import { MyContext, ViewPreferences } from "./session.ts";
+
+/**
+ * Maximum length of a text message after entity parsing
+ */
+export const MESSAGE_LENGTH_LIMIT = 4096;
+
+/**
+ * Maximum length of a media caption after entity parsing
+ */
+export const CAPTION_LENGTH_LIMIT = 1024;
+
+/**
+ * Room kept free in every chunk for the part label and the <pre> wrapper
+ */
+const CHUNK_RESERVE = 64;
+
+/**
+ * Languages a payload can be highlighted as
+ */
+export type PayloadLanguage = 'json' | 'typescript' | 'bash' | 'yaml' | 'text';
+
+/**
+ * File name a payload is sent as, by its language
+ */
+const PAYLOAD_FILE_NAMES: Record<PayloadLanguage, string> = {
+  json: 'update.json',
+  typescript: 'update.ts',
+  bash: 'update.sh',
+  yaml: 'update.yaml',
+  text: 'update.txt',
+};
+
+/**
+ * An inspection broken into its sections, so a long payload can be
+ * delivered separately from the short header around it
+ */
+export interface InspectionParts {
+  /**
+   * HTML sections shown before the payload (forward, author, message info)
+   */
+  header: string;
+
+  /**
+   * HTML heading of the payload, e.g. "<b>🔄 RAW UPDATE</b>"
+   */
+  payloadTitle: string;
+
+  /**
+   * Unescaped JSON payload, if the display mode includes one
+   */
+  payload?: string;
+
+  /**
+   * Language of the payload, JSON unless set
+   */
+  payloadLanguage?: PayloadLanguage;
+
+  /**
+   * HTML shown after the payload
+   */
+  footer: string;
+}
+
+/**
+ * How an inspection was delivered
+ * - 'single': One text message
+ * - 'split': Several text messages
+ * - 'document': An update.json file with a caption
+ */
+export type InspectionDelivery = 'single' | 'split' | 'document';
+
+/**
+ * The result of sending an inspection
+ */
+export interface SentInspection {
+  /**
+   * The message carrying the keyboard
+   */
+  message: Message;
+
+  /**
+   * How the inspection was delivered
+   */
+  delivery: InspectionDelivery;
+}
+
+/**
+ * Wraps unescaped code (JSON unless specified) in a code block
+ */
+export function formatCodeBlock(code: string, language = 'json'): string {
+  return `<pre><code class="language-${language}">${escapeHtml(code)}</code></pre>`;
+}
+
+/**
+ * Joins the parts of an inspection into a single HTML message
+ */
+export function joinInspection(parts: InspectionParts): string {
+  let result = parts.header;
+
+  if (parts.payload !== undefined) {
+    result += `${parts.payloadTitle}\n${formatCodeBlock(parts.payload, parts.payloadLanguage)}`;
+  }
+
+  return result + parts.footer;
+}
+
+/**
+ * Checks whether an inspection fits into a single message
+ */
+export function fitsInOneMessage(parts: InspectionParts): boolean {
+  return visibleLength(joinInspection(parts)) <= MESSAGE_LENGTH_LIMIT;
+}
+
+/**
+ * Estimates the length Telegram counts for an HTML message,
+ * which is the length of its text after entity parsing
+ */
+export function visibleLength(html: string): number {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, '_')
+    .length;
+}
+
+/**
+ * Splits a single JSON line into pieces of at most `max` characters
+ * without cutting through an escape sequence or a surrogate pair
+ */
+function splitLongLine(line: string, max: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+
+  while (rest.length > max) {
+    let cut = max;
+
+    // Don't separate a high surrogate from its low surrogate
+    const code = rest.charCodeAt(cut - 1);
+    if (code >= 0xd800 && code <= 0xdbff) {
+      cut--;
+    }
+
+    // Don't cut inside an escape such as \" or é
+    const escapeStart = rest.lastIndexOf('\\', cut - 1);
+    if (escapeStart !== -1 && cut - escapeStart < 6) {
+      let backslashes = 0;
+      for (let i = escapeStart; i >= 0 && rest[i] === '\\'; i--) {
+        backslashes++;
+      }
+      // An odd run of backslashes means the last one starts an escape
+      if (backslashes % 2 === 1) {
+        const escapeLength = rest[escapeStart + 1] === 'u' ? 6 : 2;
+        if (escapeStart + escapeLength > cut && escapeStart > 0) {
+          cut = escapeStart;
+        }
+      }
+    }
+
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Splits pretty-printed JSON into chunks at line boundaries.
+ * Lines longer than a whole chunk are cut at a safe position inside the line.
+ *
+ * @param json - The JSON to split
+ * @param firstBudget - Maximum length of the first chunk
+ * @param budget - Maximum length of every following chunk
+ * @returns The chunks in order
+ */
+export function chunkJson(json: string, firstBudget: number, budget: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBudget = Math.max(firstBudget, 0);
+
+  const flush = () => {
+    chunks.push(current);
+    current = '';
+    currentBudget = budget;
+  };
+
+  for (const line of json.split('\n')) {
+    const separator = current ? '\n' : '';
+
+    if (current.length + separator.length + line.length <= currentBudget) {
+      current += separator + line;
+      continue;
+    }
+
+    if (current) {
+      flush();
+    } else if (currentBudget < budget) {
+      // The first chunk has no room at all, start with a full chunk instead
+      chunks.push('');
+      currentBudget = budget;
+    }
+
+    if (line.length <= currentBudget) {
+      current = line;
+      continue;
+    }
+
+    const pieces = splitLongLine(line, budget);
+    for (const piece of pieces.slice(0, -1)) {
+      current = piece;
+      flush();
+    }
+    current = pieces[pieces.length - 1];
+  }
+
+  if (current || chunks.length === 0) {
+    chunks.push(current);
+  }
+
+  // Drop an empty leading chunk left by a header that filled the first message
+  return chunks[0] === '' && chunks.length > 1 ? chunks.slice(1) : chunks;
+}
+
+/**
+ * Cuts HTML that can't be split between tags into plain text pieces of at most `max`
+ * visible characters, without cutting through an escaped character like &amp;
+ */
+function splitTaggedBlock(html: string, max: number): string[] {
+  const text = html.replace(/<[^>]*>/g, '');
+  const pieces: string[] = [];
+  let current = '';
+  let length = 0;
+
+  for (const token of text.match(/&(#\d+|#x[0-9a-f]+|[a-z]+);|[\s\S]/gi) ?? []) {
+    if (length + 1 > max) {
+      pieces.push(current);
+      current = '';
+      length = 0;
+    }
+    current += token;
+    length++;
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits HTML into messages of at most `limit` visible characters at line breaks
+ * outside of tags, so every message stays valid HTML on its own
+ *
+ * @param html - The HTML to split
+ * @param limit - Maximum visible length of a single message
+ * @returns The messages in order
+ */
+export function splitHtml(html: string, limit = MESSAGE_LENGTH_LIMIT): string[] {
+  // Group lines into blocks that end where no tag is open, e.g. a whole <pre> block
+  const blocks: string[] = [];
+  let block = '';
+  let depth = 0;
+  for (const line of html.split('\n')) {
+    block += block || depth > 0 ? `\n${line}` : line;
+    depth += (line.match(/<[a-z][^>]*>/gi)?.length ?? 0) - (line.match(/<\/[^>]*>/g)?.length ?? 0);
+    if (depth <= 0) {
+      blocks.push(block);
+      block = '';
+      depth = 0;
+    }
+  }
+  if (block) {
+    blocks.push(block);
+  }
+
+  // Fill each message with as many blocks as fit
+  const messages: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) {
+      messages.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (const next of blocks) {
+    const joined = current ? `${current}\n${next}` : next;
+    if (visibleLength(joined) <= limit) {
+      current = joined;
+      continue;
+    }
+
+    flush();
+    if (visibleLength(next) <= limit) {
+      current = next;
+    } else {
+      // A single block too long for a message loses its formatting
+      messages.push(...splitTaggedBlock(next, limit));
+    }
+  }
+  flush();
+
+  return messages.length > 0 ? messages : [html];
+}
+
+/**
+ * Splits an inspection into HTML messages that each fit the message limit
+ *
+ * @param parts - The inspection to split
+ * @param limit - Maximum visible length of a single message
+ * @returns The messages in order
+ */
+export function splitInspection(
+  parts: InspectionParts,
+  limit = MESSAGE_LENGTH_LIMIT
+): string[] {
+  const whole = joinInspection(parts);
+  if (visibleLength(whole) <= limit) {
+    return [whole];
+  }
+
+  // Without a payload only the header sections are left to split
+  if (parts.payload === undefined) {
+    return splitHtml(whole, limit);
+  }
+
+  const headerLength = visibleLength(parts.header + parts.payloadTitle);
+  const chunks = chunkJson(
+    parts.payload,
+    limit - headerLength - CHUNK_RESERVE,
+    limit - CHUNK_RESERVE
+  );
+  const firstChunkFits = headerLength + chunks[0].length + CHUNK_RESERVE <= limit;
+
+  const messages: string[] = [];
+  if (!firstChunkFits) {
+    // The header is sent on its own (split if it is too long), every chunk gets a full message
+    messages.push(...splitHtml(parts.header + parts.payloadTitle, limit));
+  }
+
+  chunks.forEach((chunk, index) => {
+    const label = `<i>Part ${index + 1}/${chunks.length}</i>\n`;
+    const block = formatCodeBlock(chunk, parts.payloadLanguage);
+
+    if (index === 0 && firstChunkFits) {
+      messages.push(`${parts.header}${parts.payloadTitle} ${label}${block}`);
+    } else {
+      messages.push(label + block);
+    }
+  });
+
+  // Attach the footer to the last message if there is room left
+  if (parts.footer) {
+    const last = messages.length - 1;
+    if (visibleLength(messages[last] + parts.footer) <= limit) {
+      messages[last] += parts.footer;
+    } else {
+      messages.push(parts.footer.trim());
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Get the file name an inspection's payload is sent as
+ */
+function getPayloadFileName(parts: InspectionParts): string {
+  return PAYLOAD_FILE_NAMES[parts.payloadLanguage ?? 'json'];
+}
+
+/**
+ * Builds the caption for an inspection sent as a document
+ */
+function createDocumentCaption(parts: InspectionParts, payloadLength: number): string {
+  const summary = `<b>📄 ${getPayloadFileName(parts)}</b>\n<i>The output is ${payloadLength} characters long, ` +
+    `so it is attached as a file.</i>`;
+
+  const caption = `${parts.header}${summary}${parts.footer}`;
+  if (visibleLength(caption) <= CAPTION_LENGTH_LIMIT) {
+    return caption;
+  }
+
+  return summary;
+}
+
+/**
+ * Sends an inspection to a chat, using the chat's overflow strategy
+ * when it doesn't fit into a single message
+ *
+ * @param ctx - The context of the inspected update
+ * @param chatId - The chat to send the inspection to
+ * @param parts - The inspection to send
+ * @param preferences - View preferences with the overflow strategy
+ * @param keyboard - Keyboard to attach to the last message (optional)
+ * @returns The message carrying the keyboard and how the inspection was delivered
+ */
+export async function sendInspection(
+  ctx: MyContext,
+  chatId: number,
+  parts: InspectionParts,
+  preferences: ViewPreferences,
+  keyboard?: InlineKeyboard
+): Promise<SentInspection> {
+  // Everything fits, send it as usual
+  if (fitsInOneMessage(parts)) {
+    const message = await ctx.api.sendMessage(chatId, joinInspection(parts), {
+      parse_mode: "HTML",
+      reply_markup: keyboard
+    });
+    return { message, delivery: 'single' };
+  }
+
+  // Send the payload as a file with a short caption
+  if (preferences.overflowStrategy === 'document' && parts.payload !== undefined) {
+    const file = new InputFile(new TextEncoder().encode(parts.payload), getPayloadFileName(parts));
+    const message = await ctx.api.sendDocument(chatId, file, {
+      caption: createDocumentCaption(parts, parts.payload.length),
+      parse_mode: "HTML",
+      reply_markup: keyboard
+    });
+    return { message, delivery: 'document' };
+  }
+
+  // Otherwise split it over several messages, keyboard on the last one
+  const messages = splitInspection(parts);
+  let sent: Message | undefined;
+  for (let i = 0; i < messages.length; i++) {
+    const isLast = i === messages.length - 1;
+    sent = await ctx.api.sendMessage(chatId, messages[i], {
+      parse_mode: "HTML",
+      reply_markup: isLast ? keyboard : undefined
+    });
+  }
+
+  return { message: sent!, delivery: 'split' };
+}
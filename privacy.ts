@@ -0,0 +1,196 @@
+import { PrivacyOptions } from "./session.ts";
+
+/**
+ * Kinds of sensitive values, each with its own masking option
+ */
+type PrivacyCategory = 'user' | 'chat' | 'phone' | 'location' | 'username' | 'name' | 'file';
+
+/**
+ * A privacy option as shown in the /privacy keyboard
+ */
+export interface PrivacyToggle {
+  /**
+   * Suffix of the callback data, e.g. 'user_ids' for 'privacy_user_ids'
+   */
+  callback: string;
+
+  /**
+   * The option it toggles
+   */
+  option: keyof PrivacyOptions;
+
+  /**
+   * Name shown on the button
+   */
+  label: string;
+}
+
+/**
+ * All privacy toggles in the order they are shown
+ */
+export const PRIVACY_TOGGLES: PrivacyToggle[] = [
+  { callback: 'user_ids', option: 'maskUserIds', label: 'User IDs' },
+  { callback: 'chat_ids', option: 'maskChatIds', label: 'Chat IDs' },
+  { callback: 'phones', option: 'maskPhoneNumbers', label: 'Phone Numbers' },
+  { callback: 'locations', option: 'maskLocations', label: 'Locations' },
+  { callback: 'usernames', option: 'maskUsernames', label: 'Usernames' },
+  { callback: 'names', option: 'maskNames', label: 'Names' },
+  { callback: 'file_ids', option: 'maskFileIds', label: 'File IDs' },
+  { callback: 'pseudonymize', option: 'pseudonymize', label: 'Pseudonyms' },
+];
+
+/**
+ * Option that enables masking of each category
+ */
+const CATEGORY_OPTIONS: Record<PrivacyCategory, keyof PrivacyOptions> = {
+  user: 'maskUserIds',
+  chat: 'maskChatIds',
+  phone: 'maskPhoneNumbers',
+  location: 'maskLocations',
+  username: 'maskUsernames',
+  name: 'maskNames',
+  file: 'maskFileIds',
+};
+
+/**
+ * Fields holding a User object (or an array of them)
+ */
+const USER_FIELDS = new Set([
+  'from', 'user', 'sender_user', 'new_chat_members', 'left_chat_member',
+  'via_bot', 'sender_business_bot', 'users',
+]);
+
+/**
+ * Fields holding a Chat object
+ */
+const CHAT_FIELDS = new Set([
+  'chat', 'sender_chat', 'voter_chat', 'actor_chat', 'chats',
+]);
+
+/**
+ * Fields that are sensitive wherever they appear, by the category they belong to
+ */
+const FIELD_CATEGORIES: Record<string, PrivacyCategory> = {
+  user_id: 'user',
+  user_chat_id: 'user',
+  chat_id: 'chat',
+  migrate_to_chat_id: 'chat',
+  migrate_from_chat_id: 'chat',
+  phone_number: 'phone',
+  vcard: 'phone',
+  latitude: 'location',
+  longitude: 'location',
+  horizontal_accuracy: 'location',
+  username: 'username',
+  active_usernames: 'username',
+  first_name: 'name',
+  last_name: 'name',
+  sender_user_name: 'name',
+  file_id: 'file',
+  file_unique_id: 'file',
+};
+
+/**
+ * Value shown in place of masked data when pseudonyms are off
+ */
+const HIDDEN = '[hidden]';
+
+/**
+ * Masks sensitive fields of updates before they are rendered.
+ *
+ * Masking works on field paths rather than on the rendered text, so only
+ * real IDs, phone numbers, locations, usernames, names and file IDs are hidden.
+ * With pseudonyms enabled, each distinct value is replaced by a stable token
+ * (e.g. `user_1`), so the same user keeps the same token everywhere in one dump.
+ * Use one masker per rendered inspection.
+ */
+export class PrivacyMasker {
+  private readonly pseudonyms = new Map<string, string>();
+  private readonly counters = new Map<PrivacyCategory, number>();
+
+  constructor(private readonly options: PrivacyOptions) {}
+
+  /**
+   * Returns a masked deep copy of a value
+   *
+   * @param value - The update or part of an update to mask
+   * @param field - Name of the field holding the value, for context (optional)
+   */
+  mask<T>(value: T, field?: string): T {
+    return this.maskValue(value, field) as T;
+  }
+
+  /**
+   * Masks a user ID shown outside of an update, e.g. the author
+   */
+  maskUserId(id: number): number | string {
+    return this.replace(id, 'user') as number | string;
+  }
+
+  /**
+   * Masks a chat ID shown outside of an update
+   */
+  maskChatId(id: number): number | string {
+    return this.replace(id, 'chat') as number | string;
+  }
+
+  /**
+   * Replaces a value of the given category if that category is masked
+   */
+  private replace(value: unknown, category: PrivacyCategory): unknown {
+    if (!this.options[CATEGORY_OPTIONS[category]] || value === null || value === undefined) {
+      return value;
+    }
+
+    // Mask every element of lists like active_usernames
+    if (Array.isArray(value)) {
+      return value.map((element) => this.replace(element, category));
+    }
+
+    if (!this.options.pseudonymize) {
+      return HIDDEN;
+    }
+
+    const key = `${category}:${String(value)}`;
+    let pseudonym = this.pseudonyms.get(key);
+    if (!pseudonym) {
+      const next = (this.counters.get(category) ?? 0) + 1;
+      this.counters.set(category, next);
+      pseudonym = `${category}_${next}`;
+      this.pseudonyms.set(key, pseudonym);
+    }
+
+    return pseudonym;
+  }
+
+  /**
+   * Masks a value found in a field, recursing into objects and arrays
+   */
+  private maskValue(value: unknown, field?: string): unknown {
+    if (Array.isArray(value)) {
+      return value.map((element) => this.maskValue(element, field));
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const [key, child] of Object.entries(record)) {
+      if (key === 'id' && field && USER_FIELDS.has(field)) {
+        result[key] = this.replace(child, 'user');
+      } else if (key === 'id' && field && CHAT_FIELDS.has(field)) {
+        // The ID of a private chat is the user's ID
+        result[key] = this.replace(child, record.type === 'private' ? 'user' : 'chat');
+      } else if (key in FIELD_CATEGORIES) {
+        result[key] = this.replace(child, FIELD_CATEGORIES[key]);
+      } else {
+        result[key] = this.maskValue(child, key);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Segment matching every key of an object or element of an array
+ */
+export const WILDCARD = Symbol('wildcard');
+
+/**
+ * One step of a path: an object key, an array index (negative counts from the end)
+ * or a wildcard matching every key or element
+ */
+export type PathSegment = string | number | typeof WILDCARD;
+
+/**
+ * A value found by a path, with the concrete path leading to it
+ */
+export interface PathMatch {
+  /**
+   * Path with wildcards and negative indexes resolved, e.g. message.photo[3].file_id
+   */
+  path: string;
+
+  /**
+   * The value at that path
+   */
+  value: unknown;
+}
+
+/**
+ * Splits a path like message.photo[-1].file_id or message.entities[*].type into segments
+ *
+ * @throws An error describing the problem if the path is malformed
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const pattern = /\.?([A-Za-z0-9_]+|\*)|\[(-?\d+|\*)\]/y;
+  let position = 0;
+
+  while (position < path.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(path);
+
+    // A dot is only allowed between segments
+    if (!match || (position === 0 && match[0].startsWith('.'))) {
+      throw new Error(`Unexpected "${path.slice(position, position + 10)}" at position ${position + 1}`);
+    }
+    if (position > 0 && match[1] !== undefined && !match[0].startsWith('.')) {
+      throw new Error(`Missing "." before "${match[1]}" at position ${position + 1}`);
+    }
+
+    const [, key, index] = match;
+    if (key !== undefined) {
+      segments.push(key === '*' ? WILDCARD : key);
+    } else {
+      segments.push(index === '*' ? WILDCARD : Number(index));
+    }
+
+    position = pattern.lastIndex;
+  }
+
+  if (segments.length === 0) {
+    throw new Error('The path is empty');
+  }
+
+  return segments;
+}
+
+/**
+ * Checks whether a segment selects an array element or object key
+ *
+ * @param segment - The path segment
+ * @param key - The element index or object key
+ * @param length - Length of the array, undefined for objects
+ */
+function segmentMatches(segment: PathSegment, key: string | number, length?: number): boolean {
+  if (segment === WILDCARD) {
+    return true;
+  }
+
+  if (length !== undefined) {
+    // Negative indexes count from the end
+    return typeof segment === 'number' && (segment < 0 ? length + segment : segment) === key;
+  }
+
+  return segment === key;
+}
+
+/**
+ * Appends a key to a concrete path
+ */
+export function appendToPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Finds every value a path leads to
+ *
+ * @param value - The object to search, e.g. an update
+ * @param segments - The parsed path
+ * @returns The values found with their concrete paths, in document order
+ */
+export function queryPath(value: unknown, segments: PathSegment[], path = ''): PathMatch[] {
+  if (segments.length === 0) {
+    return [{ path, value }];
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+
+  const [segment, ...rest] = segments;
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((element, index) => [index, element])
+    : Object.entries(value);
+  const length = Array.isArray(value) ? value.length : undefined;
+
+  return entries
+    .filter(([key]) => segmentMatches(segment, key, length))
+    .flatMap(([key, child]) => queryPath(child, rest, appendToPath(path, key)));
+}
+
+/**
+ * Copies only the parts of a value that the given paths lead to, keeping their structure.
+ * Arrays keep the selected elements in order, without gaps.
+ *
+ * @param value - The object to filter, e.g. an update
+ * @param paths - The parsed paths to keep
+ * @returns The filtered copy, or undefined if no path matched
+ */
+export function pickPaths(value: unknown, paths: PathSegment[][]): unknown {
+  // A path ending here selects the whole subtree
+  if (paths.some((segments) => segments.length === 0)) {
+    return value;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const length = Array.isArray(value) ? value.length : undefined;
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((element, index) => [index, element])
+    : Object.entries(value);
+
+  const picked: [string | number, unknown][] = [];
+  for (const [key, child] of entries) {
+    const rest = paths
+      .filter(([segment]) => segmentMatches(segment, key, length))
+      .map((segments) => segments.slice(1));
+
+    if (rest.length > 0) {
+      const result = pickPaths(child, rest);
+      if (result !== undefined) {
+        picked.push([key, result]);
+      }
+    }
+  }
+
+  if (picked.length === 0) {
+    return undefined;
+  }
+
+  return Array.isArray(value)
+    ? picked.map(([, child]) => child)
+    : Object.fromEntries(picked);
+}
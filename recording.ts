@@ -0,0 +1,125 @@
+import { Update } from "./deps.ts";
+import { PRIVACY_TOGGLES, PrivacyMasker } from "./privacy.ts";
+import { getDefaultViewPreferences, PrivacyOptions } from "./session.ts";
+
+/**
+ * Where updates are recorded and what is scrubbed from them
+ */
+export interface RecordingConfig {
+  /**
+   * NDJSON file the updates are appended to, each day's file has the date added to its name
+   */
+  path: string;
+
+  /**
+   * Categories masked before an update is written
+   */
+  privacyOptions: PrivacyOptions;
+}
+
+/**
+ * Privacy options enabled unless RECORD_PRIVACY says otherwise: everything that identifies
+ * a person, with pseudonyms so replayed chats and users stay apart. File IDs are kept,
+ * as they only work for this bot and are needed to reproduce media bugs.
+ */
+const DEFAULT_RECORD_PRIVACY = ['user_ids', 'chat_ids', 'phones', 'locations', 'usernames', 'names', 'pseudonymize'];
+
+/**
+ * Reads the recording configuration from RECORD_FILE and RECORD_PRIVACY,
+ * a comma-separated list of privacy options as in /privacy (or none)
+ *
+ * @returns The configuration, or undefined if recording is off
+ * @throws An error naming unknown privacy options
+ */
+export function getRecordingConfig(): RecordingConfig | undefined {
+  const path = Deno.env.get("RECORD_FILE");
+  if (!path) {
+    return undefined;
+  }
+
+  const value = Deno.env.get("RECORD_PRIVACY");
+  const enabled = value === undefined
+    ? DEFAULT_RECORD_PRIVACY
+    : value.split(',').map((name) => name.trim()).filter((name) => name && name !== 'none');
+
+  const known = PRIVACY_TOGGLES.map((toggle) => toggle.callback);
+  const unknown = enabled.filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown RECORD_PRIVACY options: ${unknown.join(', ')}. Use any of ${known.join(', ')} or none`);
+  }
+
+  const { privacyOptions } = getDefaultViewPreferences();
+  for (const toggle of PRIVACY_TOGGLES) {
+    privacyOptions[toggle.option] = enabled.includes(toggle.callback);
+  }
+
+  return { path, privacyOptions };
+}
+
+/**
+ * Path of the file the updates of a day go to, e.g. updates.2024-05-01.ndjson for updates.ndjson
+ */
+function getDailyPath(path: string, day: string): string {
+  return path.replace(/(\.[^./]*)?$/, `.${day}$1`);
+}
+
+/**
+ * Appends scrubbed updates to NDJSON files, one update per line and one file per UTC day.
+ * Every file gets its own masker, so a pseudonym means the same user or chat throughout
+ * a file, and the pseudonyms kept in memory never outgrow a day of updates.
+ */
+export class UpdateRecorder {
+  private masker?: PrivacyMasker;
+  private day?: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: RecordingConfig) {}
+
+  /**
+   * Queues an update to be written, in the order updates arrive.
+   * Failed writes are logged, so recording never stops the bot.
+   */
+  record(update: Update) {
+    const day = new Date().toISOString().slice(0, 10);
+    if (!this.masker || day !== this.day) {
+      this.masker = new PrivacyMasker(this.config.privacyOptions);
+      this.day = day;
+    }
+
+    const path = getDailyPath(this.config.path, day);
+    const line = JSON.stringify(this.masker.mask(update)) + '\n';
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => Deno.writeTextFile(path, line, { append: true }))
+      .catch((error) => console.error("Error recording update:", error));
+  }
+}
+
+/**
+ * Reads the updates of a recording, skipping empty lines
+ *
+ * @throws An error naming the line that isn't an update
+ */
+export async function readRecording(path: string): Promise<Update[]> {
+  const lines = (await Deno.readTextFile(path)).split('\n');
+  const updates: Update[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let update: unknown;
+    try {
+      update = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of ${path} is not valid JSON`);
+    }
+    if (update === null || typeof update !== 'object' || typeof (update as Update).update_id !== 'number') {
+      throw new Error(`Line ${index + 1} of ${path} is not an update`);
+    }
+    updates.push(update as Update);
+  });
+
+  return updates;
+}
@@ -0,0 +1,129 @@
+// replay.ts
+//
+// Feeds recorded updates through the bot one after another, against a fake Bot API
+// that answers every call locally and writes the calls to an NDJSON file.
+//
+// Usage:
+//   deno run --allow-env --allow-read --allow-write replay.ts updates.ndjson [--out=calls.ndjson]
+//
+// Sessions are kept in memory unless STORAGE_BACKEND is set, and nothing is sent to Telegram.
+// The calls go to updates.calls.ndjson unless --out is given.
+
+import { InputFile, Update, UserFromGetMe } from "./deps.ts";
+import { readRecording } from "./recording.ts";
+
+/**
+ * An outgoing call the bot made while handling an update
+ */
+interface RecordedCall {
+  update_id: number;
+  method: string;
+  payload: unknown;
+}
+
+/**
+ * The bot the fake Bot API claims to be
+ */
+const FAKE_BOT: UserFromGetMe = {
+  id: 1,
+  is_bot: true,
+  first_name: "Replay",
+  username: "replay_bot",
+  can_join_groups: true,
+  can_read_all_group_messages: true,
+  supports_inline_queries: false,
+  can_connect_to_business: false,
+  has_main_web_app: false
+};
+
+/**
+ * Parses the value of a --name=value flag
+ */
+function getFlag(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Makes up the result of a Bot API call: messages for sending and editing,
+ * an owner for chat member lookups so admin commands work, and true for anything else
+ */
+function fakeResult(method: string, payload: Record<string, unknown>, messageId: number): unknown {
+  if (method === 'getMe') {
+    return FAKE_BOT;
+  }
+
+  if (method.startsWith('send') || method.startsWith('editMessage') || method === 'copyMessage') {
+    return {
+      message_id: messageId,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: payload.chat_id, type: 'private' },
+      from: FAKE_BOT,
+      text: payload.text,
+      reply_markup: payload.reply_markup
+    };
+  }
+
+  if (method === 'getChatMember') {
+    return { status: 'creator', is_anonymous: false, user: { id: payload.user_id, is_bot: false, first_name: 'Replay' } };
+  }
+
+  if (method === 'getFile') {
+    return { file_id: payload.file_id, file_unique_id: 'replay' };
+  }
+
+  return true;
+}
+
+/**
+ * Writes files attached to calls as their name, as their content isn't JSON
+ */
+function replaceInputFiles(_key: string, value: unknown): unknown {
+  return value instanceof InputFile ? { input_file: value.filename ?? null } : value;
+}
+
+const args = Deno.args;
+const input = args.find((arg) => !arg.startsWith('--'));
+if (!input) {
+  throw new Error("Pass the NDJSON file of recorded updates to replay");
+}
+const output = getFlag(args, 'out') ?? input.replace(/(\.ndjson)?$/, '.calls.ndjson');
+
+// Configure the bot before loading it: local sessions, any token, and no recording of the replay
+if (!Deno.env.get("STORAGE_BACKEND")) {
+  Deno.env.set("STORAGE_BACKEND", "memory");
+}
+if (!Deno.env.get("TOKEN")) {
+  Deno.env.set("TOKEN", "1:replay");
+}
+Deno.env.delete("RECORD_FILE");
+
+const { default: bot } = await import("./bot.ts");
+const updates: Update[] = await readRecording(input);
+
+// Answer every call before it reaches the throttler or the network (installed last, so it runs first)
+const calls: RecordedCall[] = [];
+let currentUpdateId = 0;
+let nextMessageId = 1;
+bot.api.config.use((_prev, method, payload) => {
+  calls.push({ update_id: currentUpdateId, method, payload });
+  const result = fakeResult(method, payload as Record<string, unknown>, nextMessageId++);
+  return Promise.resolve({ ok: true, result } as Awaited<ReturnType<typeof _prev>>);
+});
+
+// handleUpdate needs the bot's own user, which the fake API makes up
+await bot.init();
+
+let failed = 0;
+for (const update of updates) {
+  currentUpdateId = update.update_id;
+  try {
+    await bot.handleUpdate(update);
+  } catch (error) {
+    failed++;
+    console.error(`Error replaying update ${update.update_id}:`, error);
+  }
+}
+
+await Deno.writeTextFile(output, calls.map((call) => JSON.stringify(call, replaceInputFiles) + '\n').join(''));
+console.log(`Replayed ${updates.length} update(s) with ${failed} error(s), wrote ${calls.length} API call(s) to ${output}.`);
@@ -0,0 +1,459 @@
+import { Message, MessageEntity } from "./deps.ts";
+
+/**
+ * Markup the text of a reproduced message is rebuilt in
+ */
+export type TextFormat = 'html' | 'markdownv2';
+
+/**
+ * A Bot API call that sends a message again
+ */
+export interface Reproduction {
+  /**
+   * Bot API method, e.g. 'sendPhoto'
+   */
+  method: string;
+
+  /**
+   * Parameters grammY takes as positional arguments, in order
+   */
+  args: [name: string, value: unknown][];
+
+  /**
+   * Optional parameters, passed to grammY as the last argument
+   */
+  options: Record<string, unknown>;
+}
+
+/**
+ * How entities of one markup language are written
+ */
+interface Markup {
+  /**
+   * Value of the parse_mode parameter
+   */
+  parseMode: string;
+
+  /**
+   * Text that starts an entity
+   */
+  open(entity: MessageEntity): string;
+
+  /**
+   * Text that ends an entity
+   *
+   * @param closedNext - The entity closed right after this one, if any
+   */
+  close(entity: MessageEntity, closedNext?: MessageEntity): string;
+
+  /**
+   * Escapes plain text inside the given (open) entities
+   */
+  escape(text: string, open: MessageEntity[]): string;
+}
+
+/**
+ * Entity types that come from markup. All others (mentions, URLs, hashtags, ...)
+ * are detected by Telegram on its own and need no markup.
+ */
+const MARKUP_TYPES = new Set<MessageEntity['type']>([
+  'bold', 'italic', 'underline', 'strikethrough', 'spoiler', 'code', 'pre',
+  'text_link', 'text_mention', 'custom_emoji', 'blockquote', 'expandable_blockquote',
+]);
+
+/**
+ * Media fields of a message with the method and parameter that send them.
+ * Animations also carry a document, so they come first.
+ */
+const MEDIA_METHODS: [field: keyof Message, method: string, parameter: string][] = [
+  ['animation', 'sendAnimation', 'animation'],
+  ['photo', 'sendPhoto', 'photo'],
+  ['video', 'sendVideo', 'video'],
+  ['audio', 'sendAudio', 'audio'],
+  ['document', 'sendDocument', 'document'],
+  ['voice', 'sendVoice', 'voice'],
+  ['video_note', 'sendVideoNote', 'video_note'],
+  ['sticker', 'sendSticker', 'sticker'],
+];
+
+/**
+ * Media that can be covered by a spoiler
+ */
+const SPOILER_MEDIA = new Set(['animation', 'photo', 'video']);
+
+/**
+ * Characters that must be escaped in MarkdownV2 text
+ */
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+/**
+ * Checks whether an entity is a code entity, inside which markup isn't parsed
+ */
+function isCode(entity: MessageEntity): boolean {
+  return entity.type === 'code' || entity.type === 'pre';
+}
+
+/**
+ * Checks whether an entity is a block quotation
+ */
+function isBlockquote(entity: MessageEntity): boolean {
+  return entity.type === 'blockquote' || entity.type === 'expandable_blockquote';
+}
+
+/**
+ * Escapes the characters Telegram requires to be escaped in HTML (and quotes in attributes),
+ * leaving everything else readable
+ */
+function escapeHtmlText(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Telegram's HTML style
+ */
+const HTML_MARKUP: Markup = {
+  parseMode: 'HTML',
+  open(entity) {
+    switch (entity.type) {
+      case 'bold': return '<b>';
+      case 'italic': return '<i>';
+      case 'underline': return '<u>';
+      case 'strikethrough': return '<s>';
+      case 'spoiler': return '<tg-spoiler>';
+      case 'code': return '<code>';
+      case 'pre':
+        return entity.language
+          ? `<pre><code class="language-${escapeHtmlText(entity.language, true)}">`
+          : '<pre>';
+      case 'text_link': return `<a href="${escapeHtmlText(entity.url, true)}">`;
+      case 'text_mention': return `<a href="tg://user?id=${entity.user.id}">`;
+      case 'custom_emoji': return `<tg-emoji emoji-id="${entity.custom_emoji_id}">`;
+      case 'blockquote': return '<blockquote>';
+      case 'expandable_blockquote': return '<blockquote expandable>';
+      default: return '';
+    }
+  },
+  close(entity) {
+    switch (entity.type) {
+      case 'bold': return '</b>';
+      case 'italic': return '</i>';
+      case 'underline': return '</u>';
+      case 'strikethrough': return '</s>';
+      case 'spoiler': return '</tg-spoiler>';
+      case 'code': return '</code>';
+      case 'pre': return entity.language ? '</code></pre>' : '</pre>';
+      case 'text_link':
+      case 'text_mention':
+        return '</a>';
+      case 'custom_emoji': return '</tg-emoji>';
+      case 'blockquote':
+      case 'expandable_blockquote':
+        return '</blockquote>';
+      default: return '';
+    }
+  },
+  escape: (text) => escapeHtmlText(text),
+};
+
+/**
+ * Telegram's MarkdownV2 style
+ */
+const MARKDOWN_V2_MARKUP: Markup = {
+  parseMode: 'MarkdownV2',
+  open(entity) {
+    switch (entity.type) {
+      case 'bold': return '*';
+      case 'italic': return '_';
+      case 'underline': return '__';
+      case 'strikethrough': return '~';
+      case 'spoiler': return '||';
+      case 'code': return '`';
+      case 'pre': return `\`\`\`${entity.language ?? ''}\n`;
+      case 'text_link':
+      case 'text_mention':
+        return '[';
+      case 'custom_emoji': return '![';
+      case 'blockquote': return '>';
+      case 'expandable_blockquote': return '**>';
+      default: return '';
+    }
+  },
+  close(entity, closedNext) {
+    switch (entity.type) {
+      case 'bold': return '*';
+      // ___ would be read as underline first, a carriage return separates the markers
+      case 'italic': return closedNext?.type === 'underline' ? '_\r' : '_';
+      case 'underline': return '__';
+      case 'strikethrough': return '~';
+      case 'spoiler': return '||';
+      case 'code': return '`';
+      case 'pre': return '\n```';
+      case 'text_link': return `](${entity.url.replace(/[)\\]/g, '\\$&')})`;
+      case 'text_mention': return `](tg://user?id=${entity.user.id})`;
+      case 'custom_emoji': return `](tg://emoji?id=${entity.custom_emoji_id})`;
+      case 'expandable_blockquote': return '||';
+      default: return '';
+    }
+  },
+  escape(text, open) {
+    // Inside code only ` and \ are special
+    let escaped = open.some(isCode)
+      ? text.replace(/[`\\]/g, '\\$&')
+      : text.replace(MARKDOWN_V2_SPECIAL, '\\$&');
+
+    // Every line of a quotation starts with >
+    if (open.some(isBlockquote)) {
+      escaped = escaped.replace(/\n/g, '\n>');
+    }
+
+    return escaped;
+  },
+};
+
+/**
+ * Markup of each text format
+ */
+const MARKUPS: Record<TextFormat, Markup> = {
+  html: HTML_MARKUP,
+  markdownv2: MARKDOWN_V2_MARKUP,
+};
+
+/**
+ * Rebuilds the markup of a text from its entities.
+ *
+ * Offsets are UTF-16 code units like JavaScript string indexes, so the text
+ * is sliced directly. Entities that overlap without nesting are closed and
+ * reopened around each other, which gives the same formatting.
+ *
+ * @param text - The message text or caption
+ * @param entities - Its entities or caption_entities
+ * @param format - The markup to write
+ */
+export function renderEntities(text: string, entities: MessageEntity[], format: TextFormat): string {
+  const markup = MARKUPS[format];
+  const end = (entity: MessageEntity) => entity.offset + entity.length;
+
+  // Outer entities first, so they are opened before the ones they contain
+  const pending = entities
+    .filter((entity) => MARKUP_TYPES.has(entity.type) && entity.length > 0)
+    .sort((a, b) => a.offset - b.offset || b.length - a.length);
+
+  const boundaries = [...new Set([0, text.length, ...pending.flatMap((entity) => [entity.offset, end(entity)])])]
+    .filter((offset) => offset <= text.length)
+    .sort((a, b) => a - b);
+
+  const open: MessageEntity[] = [];
+  let result = '';
+  let next = 0;
+
+  boundaries.forEach((offset, index) => {
+    // Close entities ending here, reopening any opened after them that go on
+    const reopen: MessageEntity[] = [];
+    while (open.some((entity) => end(entity) <= offset)) {
+      const entity = open.pop()!;
+      const below = open[open.length - 1];
+      result += markup.close(entity, below && end(below) <= offset ? below : undefined);
+      if (end(entity) > offset) {
+        reopen.unshift(entity);
+      }
+    }
+    for (const entity of reopen) {
+      result += markup.open(entity);
+      open.push(entity);
+    }
+
+    while (next < pending.length && pending[next].offset === offset) {
+      result += markup.open(pending[next]);
+      open.push(pending[next]);
+      next++;
+    }
+
+    const until = boundaries[index + 1] ?? text.length;
+    result += markup.escape(text.slice(offset, until), open);
+  });
+
+  // Close entities reaching past the end of the text
+  while (open.length > 0) {
+    const entity = open.pop()!;
+    result += markup.close(entity, open[open.length - 1]);
+  }
+
+  return result;
+}
+
+/**
+ * Adds a text or caption to the parameters, rebuilt from its entities if it has any
+ */
+function addFormattedText(
+  parameters: Record<string, unknown>,
+  name: string,
+  text: string,
+  entities: MessageEntity[] | undefined,
+  format: TextFormat
+): void {
+  const formatted = entities?.some((entity) => MARKUP_TYPES.has(entity.type));
+  parameters[name] = formatted ? renderEntities(text, entities!, format) : text;
+
+  if (formatted) {
+    parameters.parse_mode = MARKUPS[format].parseMode;
+  }
+}
+
+/**
+ * Builds the Bot API call that sends a message again
+ *
+ * @param message - The message to reproduce
+ * @param format - Markup the text or caption is rebuilt in
+ * @returns The call, or undefined if the message can't be sent by a bot (e.g. service messages)
+ */
+export function buildReproduction(message: Message, format: TextFormat = 'html'): Reproduction | undefined {
+  const options: Record<string, unknown> = {};
+  let reproduction: Reproduction | undefined;
+
+  const media = MEDIA_METHODS.find(([field]) => message[field] !== undefined);
+
+  if (message.text !== undefined) {
+    const parameters: Record<string, unknown> = {};
+    addFormattedText(parameters, 'text', message.text, message.entities, format);
+    const { text, ...rest } = parameters;
+    reproduction = { method: 'sendMessage', args: [['text', text]], options: rest };
+
+    if (message.link_preview_options) {
+      options.link_preview_options = message.link_preview_options;
+    }
+  } else if (media) {
+    const [field, method, parameter] = media;
+    const value = message[field];
+
+    // Photos come in several sizes, resend the largest one
+    const file = Array.isArray(value) ? value[value.length - 1] : value as { file_id: string };
+    reproduction = { method, args: [[parameter, file.file_id]], options: {} };
+
+    if (message.caption !== undefined) {
+      addFormattedText(reproduction.options, 'caption', message.caption, message.caption_entities, format);
+    }
+    if (message.show_caption_above_media) {
+      options.show_caption_above_media = true;
+    }
+    if (message.has_media_spoiler && SPOILER_MEDIA.has(field)) {
+      options.has_spoiler = true;
+    }
+  } else if (message.venue) {
+    const { venue } = message;
+    reproduction = {
+      method: 'sendVenue',
+      args: [
+        ['latitude', venue.location.latitude],
+        ['longitude', venue.location.longitude],
+        ['title', venue.title],
+        ['address', venue.address],
+      ],
+      options: {},
+    };
+  } else if (message.location) {
+    const { location } = message;
+    reproduction = {
+      method: 'sendLocation',
+      args: [['latitude', location.latitude], ['longitude', location.longitude]],
+      options: {
+        horizontal_accuracy: location.horizontal_accuracy,
+        live_period: location.live_period,
+        heading: location.heading,
+        proximity_alert_radius: location.proximity_alert_radius,
+      },
+    };
+  } else if (message.contact) {
+    const { contact } = message;
+    reproduction = {
+      method: 'sendContact',
+      args: [['phone_number', contact.phone_number], ['first_name', contact.first_name]],
+      options: { last_name: contact.last_name, vcard: contact.vcard },
+    };
+  } else if (message.poll) {
+    const { poll } = message;
+    reproduction = {
+      method: 'sendPoll',
+      args: [
+        ['question', poll.question],
+        ['options', poll.options.map((option) => ({ text: option.text }))],
+      ],
+      options: {
+        is_anonymous: poll.is_anonymous,
+        type: poll.type,
+        allows_multiple_answers: poll.allows_multiple_answers || undefined,
+        correct_option_id: poll.correct_option_id,
+        explanation: poll.explanation,
+        open_period: poll.open_period,
+        is_closed: poll.is_closed || undefined,
+      },
+    };
+  } else if (message.dice) {
+    reproduction = { method: 'sendDice', args: [['emoji', message.dice.emoji]], options: {} };
+  }
+
+  if (!reproduction) {
+    return undefined;
+  }
+
+  // Options every send method shares
+  if (message.business_connection_id) {
+    options.business_connection_id = message.business_connection_id;
+  }
+  if (message.is_topic_message && message.message_thread_id !== undefined) {
+    options.message_thread_id = message.message_thread_id;
+  }
+  if (message.has_protected_content) {
+    options.protect_content = true;
+  }
+  if (message.effect_id) {
+    options.message_effect_id = message.effect_id;
+  }
+  if (message.reply_markup) {
+    options.reply_markup = message.reply_markup;
+  }
+
+  // Drop options the message didn't have
+  const allOptions = { ...reproduction.options, ...options };
+  reproduction.options = Object.fromEntries(
+    Object.entries(allOptions).filter(([, value]) => value !== undefined)
+  );
+  reproduction.args.unshift(['chat_id', message.chat.id]);
+
+  return reproduction;
+}
+
+/**
+ * Builds the JSON body of the Bot API request
+ */
+export function getReproductionPayload(reproduction: Reproduction): Record<string, unknown> {
+  return { ...Object.fromEntries(reproduction.args), ...reproduction.options };
+}
+
+/**
+ * Formats the call as grammY code
+ */
+export function formatGrammySnippet(reproduction: Reproduction): string {
+  const values: unknown[] = reproduction.args.map(([, value]) => value);
+  if (Object.keys(reproduction.options).length > 0) {
+    values.push(reproduction.options);
+  }
+
+  const args = values
+    .map((value) => `  ${JSON.stringify(value, null, 2).replace(/\n/g, '\n  ')},`)
+    .join('\n');
+
+  return `await bot.api.${reproduction.method}(\n${args}\n);`;
+}
+
+/**
+ * Formats the call as a curl command, reading the token from $TOKEN
+ */
+export function formatCurlCommand(reproduction: Reproduction): string {
+  // Close the single quotes around the body for every single quote inside it
+  const body = JSON.stringify(getReproductionPayload(reproduction), null, 2).replace(/'/g, `'\\''`);
+
+  return `curl -X POST "https://api.telegram.org/bot$TOKEN/${reproduction.method}" \\\n` +
+    `  -H "Content-Type: application/json" \\\n` +
+    `  -d '${body}'`;
+}
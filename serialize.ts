@@ -0,0 +1,182 @@
+import { PayloadLanguage } from "./overflow.ts";
+import { appendToPath } from "./query.ts";
+import { ViewPreferences } from "./session.ts";
+
+/**
+ * A value serialized for the raw payload
+ */
+export interface SerializedPayload {
+  /**
+   * The serialized text
+   */
+  payload: string;
+
+  /**
+   * Language to highlight it as and pick its file name by
+   */
+  language: PayloadLanguage;
+}
+
+/**
+ * Words a YAML parser would read as something other than a string
+ */
+const YAML_RESERVED = new Set([
+  'true', 'false', 'yes', 'no', 'on', 'off', 'null', '~', 'y', 'n',
+]);
+
+/**
+ * Checks whether a value is an object or array with at least one entry
+ */
+function isNonEmptyCollection(value: unknown): value is object {
+  return value !== null && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+/**
+ * Formats a leaf value as a YAML scalar, quoting strings that would otherwise
+ * be read as another type or break the layout
+ */
+function formatYamlScalar(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (value !== null && typeof value === 'object') {
+    return '{}';
+  }
+  if (typeof value !== 'string') {
+    return String(value ?? null);
+  }
+
+  const plain = /^[A-Za-z_/][\w ./@+-]*$/.test(value) &&
+    !value.endsWith(' ') &&
+    !YAML_RESERVED.has(value.toLowerCase());
+
+  // JSON strings are valid double-quoted YAML scalars
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Formats an object key for YAML, quoting anything but plain field names
+ */
+function formatYamlKey(key: string): string {
+  return /^[A-Za-z_]\w*$/.test(key) && !YAML_RESERVED.has(key.toLowerCase()) ? key : JSON.stringify(key);
+}
+
+/**
+ * Renders a value as block-style YAML lines
+ *
+ * @param value - The value to render
+ * @param indent - Number of spaces to indent every line by
+ */
+function toYamlLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (!isNonEmptyCollection(value)) {
+    return [pad + formatYamlScalar(value)];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((element) => {
+      if (!isNonEmptyCollection(element)) {
+        return [`${pad}- ${formatYamlScalar(element)}`];
+      }
+
+      // The first line of a nested collection goes right after the dash
+      const [first, ...rest] = toYamlLines(element, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value)
+    .filter(([, child]) => child !== undefined)
+    .flatMap(([key, child]) => isNonEmptyCollection(child)
+      ? [`${pad}${formatYamlKey(key)}:`, ...toYamlLines(child, indent + 2)]
+      : [`${pad}${formatYamlKey(key)}: ${formatYamlScalar(child)}`]
+    );
+}
+
+/**
+ * Renders a value as YAML
+ */
+export function toYaml(value: unknown): string {
+  return toYamlLines(value, 0).join('\n');
+}
+
+/**
+ * Lists every leaf of a value as a `path = value` line, using the same
+ * paths /get and the path filter accept, e.g. message.from.id = 123
+ */
+export function flattenPaths(value: unknown, path = ''): string[] {
+  if (!isNonEmptyCollection(value)) {
+    return [`${path || '(root)'} = ${JSON.stringify(value ?? null)}`];
+  }
+
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((element, index) => [index, element])
+    : Object.entries(value).filter(([, child]) => child !== undefined);
+
+  return entries.flatMap(([key, child]) => flattenPaths(child, appendToPath(path, key)));
+}
+
+/**
+ * Drops null and empty fields and collapses long arrays to their first elements
+ * and the last one, e.g. the thumbnails of a photo before its largest size
+ *
+ * @param value - The value to prune
+ * @param arrayLimit - Number of elements an array keeps before it is collapsed
+ * @returns The pruned copy, undefined if nothing is left
+ */
+export function pruneValue(value: unknown, arrayLimit: number): unknown {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    const elements = value
+      .map((element) => pruneValue(element, arrayLimit))
+      .filter((element) => element !== undefined);
+
+    if (elements.length > arrayLimit) {
+      const kept = Math.max(arrayLimit - 1, 0);
+      const hidden = elements.length - kept - 1;
+      return [...elements.slice(0, kept), `… ${hidden} more`, elements[elements.length - 1]];
+    }
+
+    return elements.length > 0 ? elements : undefined;
+  }
+
+  const entries = Object.entries(value)
+    .map(([key, child]) => [key, pruneValue(child, arrayLimit)] as const)
+    .filter(([, child]) => child !== undefined);
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Serializes the raw payload in the chosen format
+ *
+ * @param value - The (masked) update or dump to serialize
+ * @param preferences - View preferences with the raw format and the array limit
+ */
+export function serializeRaw(
+  value: unknown,
+  preferences: Pick<ViewPreferences, 'rawFormat' | 'pruneArrayLimit'>
+): SerializedPayload {
+  switch (preferences.rawFormat) {
+    case 'yaml':
+      return { payload: toYaml(value), language: 'yaml' };
+    case 'compact':
+      return { payload: JSON.stringify(value), language: 'json' };
+    case 'flat':
+      return { payload: flattenPaths(value).join('\n'), language: 'text' };
+    case 'pruned':
+      return {
+        payload: JSON.stringify(pruneValue(value, preferences.pruneArrayLimit) ?? {}, null, 2),
+        language: 'json'
+      };
+    default:
+      return { payload: JSON.stringify(value, null, 2), language: 'json' };
+  }
+}
@@ -1,9 +1,67 @@
-import { BaseContext, SessionFlavor } from "./deps.ts";
+import { BaseContext, Message, SessionFlavor } from "./deps.ts";
 
 /**
  * Message types the bot can filter on
+ * (the last group are update kinds other than new messages)
  */
-export type MessageType = 'text' | 'photo' | 'video' | 'document' | 'audio' | 'sticker' | 'animation' | 'voice' | 'poll' | 'location' | 'contact' | 'forward';
+export type MessageType = 'text' | 'photo' | 'video' | 'document' | 'audio' | 'sticker' | 'animation' | 'voice' | 'poll' | 'location' | 'contact' | 'forward'
+  | 'edited' | 'channel_post' | 'callback_query' | 'inline_query' | 'poll_answer' | 'reaction' | 'join_request' | 'business';
+
+/**
+ * All message types in the order they are shown in the filter keyboard
+ */
+export const MESSAGE_TYPES: MessageType[] = [
+  'text', 'photo', 'video', 'document', 'audio', 'sticker',
+  'animation', 'voice', 'poll', 'location', 'contact', 'forward',
+  'edited', 'channel_post', 'callback_query', 'inline_query', 'poll_answer', 'reaction',
+  'join_request', 'business'
+];
+
+/**
+ * Privacy options for sensitive data
+ */
+export interface PrivacyOptions {
+  /**
+   * Whether to mask user IDs
+   */
+  maskUserIds: boolean;
+  
+  /**
+   * Whether to mask phone numbers
+   */
+  maskPhoneNumbers: boolean;
+  
+  /**
+   * Whether to mask chat IDs
+   */
+  maskChatIds: boolean;
+  
+  /**
+   * Whether to mask coordinates of locations and venues
+   */
+  maskLocations: boolean;
+  
+  /**
+   * Whether to mask usernames
+   */
+  maskUsernames: boolean;
+  
+  /**
+   * Whether to mask first and last names
+   */
+  maskNames: boolean;
+  
+  /**
+   * Whether to mask file IDs
+   */
+  maskFileIds: boolean;
+  
+  /**
+   * Whether to replace masked values with stable pseudonyms (e.g. user_1)
+   * instead of hiding them, so the same value keeps the same token in one dump
+   */
+  pseudonymize: boolean;
+}
 
 /**
  * View preferences for display settings
@@ -14,8 +72,9 @@ export interface ViewPreferences {
    * - 'compact': Shows a summarized version
    * - 'full': Shows all details
    * - 'raw': Shows only raw JSON
+   * - 'types': Shows TypeScript interfaces inferred from the update
    */
-  displayMode: 'compact' | 'full' | 'raw';
+  displayMode: 'compact' | 'full' | 'raw' | 'types';
   
   /**
    * Whether to show forward information when available
@@ -27,25 +86,62 @@ export interface ViewPreferences {
    */
   showAuthorInfo: boolean;
   
+  /**
+   * Whether to draw the inline keyboard of a message and decode its callback_data
+   */
+  showKeyboard: boolean;
+  
+  /**
+   * Whether to list the entities of the text and caption with their UTF-16 offsets
+   */
+  showEntities: boolean;
+  
+  /**
+   * Whether to list the timestamps of the update as ISO 8601 and relative times
+   */
+  showTimestamps: boolean;
+  
+  /**
+   * Whether to look up the file of media messages with getFile
+   */
+  showFileDetails: boolean;
+  
+  /**
+   * Whether to decode the file_id and file_unique_id of media in the message info
+   */
+  showFileIds: boolean;
+  
+  /**
+   * Paths of the subtrees raw mode shows, e.g. 'message.photo[-1].file_id' (all if empty)
+   */
+  pathFilter: string[];
+  
+  /**
+   * How raw mode serializes the update
+   * - 'json': Pretty-printed JSON
+   * - 'yaml': YAML
+   * - 'compact': JSON on a single line
+   * - 'flat': One `path = value` line per leaf
+   * - 'pruned': Pretty-printed JSON without null or empty fields and with long arrays collapsed
+   */
+  rawFormat: 'json' | 'yaml' | 'compact' | 'flat' | 'pruned';
+  
+  /**
+   * Number of elements an array keeps in the pruned format before it is collapsed
+   */
+  pruneArrayLimit: number;
+  
+  /**
+   * How to send inspections longer than Telegram's message limit
+   * - 'split': Splits the JSON into several messages
+   * - 'document': Sends the JSON as an update.json file
+   */
+  overflowStrategy: 'split' | 'document';
+  
   /**
    * Privacy options for sensitive data
    */
-  privacyOptions: {
-    /**
-     * Whether to mask user IDs
-     */
-    maskUserIds: boolean;
-    
-    /**
-     * Whether to mask phone numbers
-     */
-    maskPhoneNumbers: boolean;
-    
-    /**
-     * Whether to mask chat IDs
-     */
-    maskChatIds: boolean;
-  };
+  privacyOptions: PrivacyOptions;
 }
 
 /**
@@ -68,15 +164,26 @@ export interface MessageFilters {
  */
 export interface UserPreferences {
   /**
-   * View preferences for this user
+   * View preferences for this user, missing until the user changes a view setting
+   * with per-user preferences enabled (the group preferences apply until then)
    */
-  viewPreferences: ViewPreferences;
+  viewPreferences?: ViewPreferences;
+  
+  /**
+   * IANA time zone timestamps are shown in for this user, e.g. 'Europe/Berlin' (UTC if unset)
+   */
+  timezone?: string;
 }
 
 /**
  * Session data structure for the bot
  */
 export interface SessionData {
+  /**
+   * Version of the schema the session was stored with
+   */
+  schemaVersion: number;
+  
   /**
    * Whether the bot is enabled in a particular chat
    */
@@ -120,7 +227,15 @@ export function getDefaultMessageFilters(): MessageFilters {
       poll: true,
       location: true,
       contact: true,
-      forward: true
+      forward: true,
+      edited: true,
+      channel_post: true,
+      callback_query: true,
+      inline_query: true,
+      poll_answer: true,
+      reaction: true,
+      join_request: true,
+      business: true
     },
     respondToAll: true
   };
@@ -135,14 +250,36 @@ export function getDefaultViewPreferences(isGroup = false): ViewPreferences {
     displayMode: isGroup ? 'raw' : 'compact',
     showForwardInfo: true,
     showAuthorInfo: true,
+    showKeyboard: false,
+    showEntities: false,
+    showTimestamps: false,
+    showFileDetails: false,
+    showFileIds: false,
+    pathFilter: [],
+    rawFormat: 'json',
+    pruneArrayLimit: 3,
+    overflowStrategy: 'split',
     privacyOptions: {
       maskUserIds: false,
       maskPhoneNumbers: true,
-      maskChatIds: false
+      maskChatIds: false,
+      maskLocations: false,
+      maskUsernames: false,
+      maskNames: false,
+      maskFileIds: false,
+      pseudonymize: false
     }
   };
 }
 
+/**
+ * Copies view preferences, including the nested privacy options and path filter,
+ * e.g. to give a user their own preferences starting from the group-wide ones
+ */
+export function copyViewPreferences(preferences: ViewPreferences): ViewPreferences {
+  return structuredClone(preferences);
+}
+
 /**
  * Get default session data based on chat type
  */
@@ -151,6 +288,9 @@ export function getDefaultSession(chatType?: string): SessionData {
   const isGroup = chatType === 'group' || chatType === 'supergroup' || chatType === 'channel';
   
   return {
+    // New sessions always use the current schema
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    
     // Enable by default only in private chats
     enabled: chatType === 'private',
     
@@ -199,34 +339,150 @@ export async function isUserAdmin(ctx: MyContext): Promise<boolean> {
   }
 }
 
+// --------------------
+// Schema Migrations
+// --------------------
+
+/**
+ * Current version of the session schema
+ */
+export const SESSION_SCHEMA_VERSION = 1;
+
+/**
+ * Upgrades a stored session by one schema version
+ */
+type SessionMigration = (session: Partial<SessionData>) => Partial<SessionData>;
+
+/**
+ * Migrations that bring stored sessions up to date, in order.
+ * The migration at index i upgrades a session from version i to version i + 1.
+ * Missing fields are filled with defaults after migrating, so a migration
+ * is only needed when the default isn't right for existing sessions.
+ */
+const SESSION_MIGRATIONS: SessionMigration[] = [
+  // 0 → 1: Update kinds became filterable. Chats that only respond to selected
+  // types never saw these updates before, so they stay off there.
+  (session) => {
+    const filters = session.messageFilters;
+    if (filters?.enabledTypes && filters.respondToAll === false) {
+      const updateKinds: MessageType[] = [
+        'edited', 'channel_post', 'callback_query', 'inline_query',
+        'poll_answer', 'reaction', 'join_request', 'business'
+      ];
+      for (const type of updateKinds) {
+        filters.enabledTypes[type] ??= false;
+      }
+    }
+    return session;
+  },
+];
+
+/**
+ * Runs the migrations a stored session hasn't seen yet
+ *
+ * @param session - The stored session, which is left unchanged
+ * @returns A migrated copy of the session
+ */
+export function migrateSession(session: Partial<SessionData>): Partial<SessionData> {
+  let migrated = structuredClone(session);
+  
+  for (let version = migrated.schemaVersion ?? 0; version < SESSION_SCHEMA_VERSION; version++) {
+    migrated = SESSION_MIGRATIONS[version](migrated);
+  }
+  
+  return migrated;
+}
+
+/**
+ * Checks whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Fills missing or mistyped fields of a value with defaults, recursing into nested objects
+ *
+ * @param value - The stored value
+ * @param defaults - Default value with the complete shape
+ * @returns The value with every field of the defaults present
+ */
+export function fillDefaults<T>(value: unknown, defaults: T): T {
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(value)) {
+      return structuredClone(defaults);
+    }
+    
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, defaultValue] of Object.entries(defaults)) {
+      result[key] = fillDefaults(value[key], defaultValue);
+    }
+    return result as T;
+  }
+  
+  if (Array.isArray(defaults)) {
+    return (Array.isArray(value) ? value : structuredClone(defaults)) as T;
+  }
+  
+  return (typeof value === typeof defaults ? value : defaults) as T;
+}
+
 /**
  * Ensures session has all required properties
- * Adds missing properties with defaults if needed
+ * Migrates sessions stored with an older schema, then adds missing
+ * properties (including nested ones) with defaults
  */
 export function ensureCompleteSession(session: Partial<SessionData>, chatType?: string): SessionData {
   const isGroup = chatType === 'group' || chatType === 'supergroup' || chatType === 'channel';
   
+  // Bring sessions stored by older versions up to date
+  const migrated = migrateSession(session);
+  
+  // Complete the group-wide preferences first, user preferences fall back to them
+  const viewPreferences = fillDefaults(migrated.viewPreferences, getDefaultViewPreferences(isGroup));
+  
+  const userPreferences: Record<number, UserPreferences> = {};
+  for (const [userId, preferences] of Object.entries(migrated.userPreferences ?? {})) {
+    userPreferences[Number(userId)] = {
+      // Users that only set a time zone keep following the group preferences
+      viewPreferences: preferences?.viewPreferences === undefined
+        ? undefined
+        : fillDefaults(preferences.viewPreferences, viewPreferences),
+      timezone: typeof preferences?.timezone === 'string' ? preferences.timezone : undefined
+    };
+  }
+  
   // Create a complete session by merging with defaults for any missing parts
   const completeSession: SessionData = {
+    // Migrated to the current schema
+    schemaVersion: Math.max(migrated.schemaVersion ?? 0, SESSION_SCHEMA_VERSION),
+    
     // Use existing enabled status or default based on chat type
-    enabled: session.enabled ?? (chatType === 'private'),
+    enabled: migrated.enabled ?? (chatType === 'private'),
     
-    // Use existing view preferences or defaults
-    viewPreferences: session.viewPreferences ?? getDefaultViewPreferences(isGroup),
+    // Use existing view preferences, completed with defaults
+    viewPreferences,
     
-    // Use existing message filters or defaults
-    messageFilters: session.messageFilters ?? getDefaultMessageFilters(),
+    // Use existing message filters, completed with defaults (e.g. for new message types)
+    messageFilters: fillDefaults(migrated.messageFilters, getDefaultMessageFilters()),
     
     // Use existing per-user preference setting or default to false
-    usePerUserPreferences: session.usePerUserPreferences ?? false,
+    usePerUserPreferences: migrated.usePerUserPreferences ?? false,
     
-    // Use existing user preferences or empty object
-    userPreferences: session.userPreferences ?? {}
+    // Use existing user preferences, completed with the group preferences
+    userPreferences
   };
   
   return completeSession;
 }
 
+/**
+ * Get the time zone a user picked, which applies whether or not per-user preferences are enabled
+ */
+export function getUserTimezone(session: SessionData, userId?: number): string {
+  return (userId && session.userPreferences[userId]?.timezone) || 'UTC';
+}
+
 /**
  * Get effective view preferences for a user with safety checks
  */
@@ -242,13 +498,18 @@ export function getEffectivePreferences(
     return session.viewPreferences;
   }
   
-  // If user has preferences, return those
-  if (session.userPreferences[userId]) {
-    return session.userPreferences[userId].viewPreferences;
-  }
-  
-  // Otherwise, return group preferences
-  return session.viewPreferences;
+  // Return the user's preferences if they have their own, group preferences otherwise
+  return session.userPreferences[userId]?.viewPreferences ?? session.viewPreferences;
+}
+
+/**
+ * Get the view preferences to change for a user with per-user preferences enabled,
+ * first giving the user their own copy of the group preferences if they have none
+ */
+export function getOwnViewPreferences(session: SessionData, userId: number): ViewPreferences {
+  const user = session.userPreferences[userId] ??= {};
+  user.viewPreferences ??= copyViewPreferences(session.viewPreferences);
+  return user.viewPreferences;
 }
 
 /**
@@ -280,8 +541,29 @@ export function shouldProcessMessageType(
 
 /**
  * Get message type from context
+ * Updates other than new messages are typed by their update kind
  */
 export function getMessageType(ctx: MyContext): MessageType | null {
+  const update = ctx.update;
+  
+  if (update.edited_message || update.edited_channel_post || update.edited_business_message) {
+    return 'edited';
+  } else if (update.channel_post) {
+    return 'channel_post';
+  } else if (update.business_message) {
+    return 'business';
+  } else if (update.callback_query) {
+    return 'callback_query';
+  } else if (update.inline_query) {
+    return 'inline_query';
+  } else if (update.poll_answer) {
+    return 'poll_answer';
+  } else if (update.message_reaction || update.message_reaction_count) {
+    return 'reaction';
+  } else if (update.chat_join_request) {
+    return 'join_request';
+  }
+  
   if (!ctx.message) {
     return null;
   }
@@ -289,97 +571,40 @@ export function getMessageType(ctx: MyContext): MessageType | null {
   // Check for forwarded message using forward_origin instead of forward_date
   if (ctx.message.forward_origin) {
     return 'forward';
-  } else if (ctx.message.text) {
+  }
+  
+  return getMessageContentType(ctx.message);
+}
+
+/**
+ * Get the content type of a message, regardless of whether it was forwarded
+ * Returns null for content the filters don't distinguish (e.g. dice or service messages)
+ */
+export function getMessageContentType(message: Message): MessageType | null {
+  if (message.text) {
     return 'text';
-  } else if (ctx.message.photo) {
+  } else if (message.photo) {
     return 'photo';
-  } else if (ctx.message.video) {
+  } else if (message.video) {
     return 'video';
-  } else if (ctx.message.document) {
+  } else if (message.animation) {
+    // Animations also carry a document, so check them first
+    return 'animation';
+  } else if (message.document) {
     return 'document';
-  } else if (ctx.message.audio) {
+  } else if (message.audio) {
     return 'audio';
-  } else if (ctx.message.sticker) {
+  } else if (message.sticker) {
     return 'sticker';
-  } else if (ctx.message.animation) {
-    return 'animation';
-  } else if (ctx.message.voice) {
+  } else if (message.voice) {
     return 'voice';
-  } else if (ctx.message.poll) {
+  } else if (message.poll) {
     return 'poll';
-  } else if (ctx.message.location) {
+  } else if (message.location) {
     return 'location';
-  } else if (ctx.message.contact) {
+  } else if (message.contact) {
     return 'contact';
   }
   
   return null;
 }
-/**
- * Generate export command for current settings
- */
-export function generateExportCommand(sessionData: SessionData): string {
-  // Create a compressed representation of settings
-  const exportObj = {
-    v: sessionData.viewPreferences,
-    f: sessionData.messageFilters,
-    u: sessionData.usePerUserPreferences
-  };
-  
-  // Convert to Base64
-  const jsonStr = JSON.stringify(exportObj);
-  const base64 = btoa(jsonStr);
-  
-  return `/import ${base64}`;
-}
-
-/**
- * Import settings from export command
- */
-export function importSettings(base64: string): Partial<SessionData> | null {
-  try {
-    // Decode Base64
-    const jsonStr = atob(base64);
-    const importObj = JSON.parse(jsonStr);
-    
-    // Validate and convert back to session data
-    return {
-      viewPreferences: importObj.v,
-      messageFilters: importObj.f,
-      usePerUserPreferences: importObj.u
-    };
-  } catch (error) {
-    console.error('Error importing settings:', error);
-    return null;
-  }
-}
-
-/**
- * Apply privacy mask if needed
- */
-export function applyPrivacyMask(
-  text: string, 
-  privacyOptions: ViewPreferences['privacyOptions']
-): string {
-  let result = text;
-  
-  // Mask user IDs
-  if (privacyOptions.maskUserIds) {
-    // Replace user IDs (commonly shown as digits within 8-10 digits)
-    result = result.replace(/(\d{8,10})/g, '****$1****');
-  }
-  
-  // Mask phone numbers
-  if (privacyOptions.maskPhoneNumbers) {
-    // Common phone number patterns
-    result = result.replace(/(\+\d{1,3})\d{6,}/g, '$1******');
-  }
-  
-  // Mask chat IDs
-  if (privacyOptions.maskChatIds) {
-    // Chat IDs often start with -100 for groups/channels
-    result = result.replace(/(-100\d{6,})/g, '****$1****');
-  }
-  
-  return result;
-}
\ No newline at end of file
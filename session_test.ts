@@ -0,0 +1,188 @@
+import { assertEquals } from "./dev_deps.ts";
+import {
+  copyViewPreferences,
+  ensureCompleteSession,
+  fillDefaults,
+  getDefaultMessageFilters,
+  getDefaultSession,
+  getDefaultViewPreferences,
+  getEffectivePreferences,
+  getOwnViewPreferences,
+  migrateSession,
+  SESSION_SCHEMA_VERSION,
+  SessionData
+} from "./session.ts";
+
+/**
+ * A group session as stored before the schema was versioned: no schemaVersion,
+ * only the original message types and view preferences
+ */
+function getBaselineSession(respondToAll: boolean): Partial<SessionData> {
+  return JSON.parse(JSON.stringify({
+    enabled: true,
+    viewPreferences: {
+      displayMode: 'full',
+      showForwardInfo: false,
+      showAuthorInfo: true,
+      privacyOptions: { maskUserIds: true, maskPhoneNumbers: true, maskChatIds: false }
+    },
+    messageFilters: {
+      enabledTypes: {
+        text: true, photo: false, video: true, document: true, audio: true, sticker: false,
+        animation: true, voice: true, poll: true, location: true, contact: true, forward: true
+      },
+      respondToAll
+    },
+    usePerUserPreferences: true,
+    userPreferences: {
+      42: { viewPreferences: { displayMode: 'raw', showForwardInfo: true, showAuthorInfo: false } }
+    }
+  }));
+}
+
+Deno.test("migrateSession turns new update kinds off in chats that respond to selected types", () => {
+  const stored = getBaselineSession(false);
+  const migrated = migrateSession(stored);
+
+  const enabledTypes = migrated.messageFilters!.enabledTypes;
+  for (const type of ['edited', 'channel_post', 'callback_query', 'inline_query', 'poll_answer', 'reaction', 'join_request', 'business'] as const) {
+    assertEquals(enabledTypes[type], false, type);
+  }
+  assertEquals(enabledTypes.text, true);
+  assertEquals(enabledTypes.photo, false);
+
+  // The stored session is left as it was
+  assertEquals(stored, getBaselineSession(false));
+});
+
+Deno.test("migrateSession leaves new update kinds to the defaults in chats that respond to all", () => {
+  const migrated = migrateSession(getBaselineSession(true));
+  assertEquals(migrated.messageFilters, getBaselineSession(true).messageFilters);
+
+  const complete = ensureCompleteSession(getBaselineSession(true), 'group');
+  assertEquals(complete.messageFilters.enabledTypes.reaction, true);
+});
+
+Deno.test("ensureCompleteSession upgrades a baseline session to the current schema", () => {
+  const complete = ensureCompleteSession(getBaselineSession(false), 'group');
+
+  assertEquals(complete.schemaVersion, SESSION_SCHEMA_VERSION);
+  assertEquals(complete.enabled, true);
+  assertEquals(complete.usePerUserPreferences, true);
+  assertEquals(complete.messageFilters.respondToAll, false);
+  assertEquals(complete.messageFilters.enabledTypes.sticker, false);
+  assertEquals(complete.messageFilters.enabledTypes.edited, false);
+});
+
+Deno.test("ensureCompleteSession fills view preferences added after the baseline", () => {
+  const complete = ensureCompleteSession(getBaselineSession(false), 'group');
+  const defaults = getDefaultViewPreferences(true);
+
+  // Stored choices are kept
+  assertEquals(complete.viewPreferences.displayMode, 'full');
+  assertEquals(complete.viewPreferences.showForwardInfo, false);
+  assertEquals(complete.viewPreferences.privacyOptions.maskUserIds, true);
+
+  // Later settings get their defaults, including nested privacy options
+  assertEquals(complete.viewPreferences.showKeyboard, defaults.showKeyboard);
+  assertEquals(complete.viewPreferences.showFileIds, defaults.showFileIds);
+  assertEquals(complete.viewPreferences.showTimestamps, defaults.showTimestamps);
+  assertEquals(complete.viewPreferences.pathFilter, defaults.pathFilter);
+  assertEquals(complete.viewPreferences.overflowStrategy, defaults.overflowStrategy);
+  assertEquals(complete.viewPreferences.privacyOptions.maskLocations, defaults.privacyOptions.maskLocations);
+  assertEquals(complete.viewPreferences.privacyOptions.pseudonymize, defaults.privacyOptions.pseudonymize);
+});
+
+Deno.test("ensureCompleteSession fills user preferences from the group preferences", () => {
+  const complete = ensureCompleteSession(getBaselineSession(false), 'group');
+  const user = complete.userPreferences[42];
+
+  assertEquals(user.viewPreferences!.displayMode, 'raw');
+  assertEquals(user.viewPreferences!.showAuthorInfo, false);
+  assertEquals(user.viewPreferences!.privacyOptions, complete.viewPreferences.privacyOptions);
+  assertEquals(user.timezone, undefined);
+});
+
+Deno.test("fillDefaults replaces mistyped fields with defaults", () => {
+  const stored = {
+    displayMode: 'compact',
+    showKeyboard: 'yes',
+    pathFilter: 'message.text',
+    pruneArrayLimit: null,
+    privacyOptions: 'masked'
+  };
+  const filled = fillDefaults(stored, getDefaultViewPreferences());
+  const defaults = getDefaultViewPreferences();
+
+  assertEquals(filled.displayMode, 'compact');
+  assertEquals(filled.showKeyboard, defaults.showKeyboard);
+  assertEquals(filled.pathFilter, defaults.pathFilter);
+  assertEquals(filled.pruneArrayLimit, defaults.pruneArrayLimit);
+  assertEquals(filled.privacyOptions, defaults.privacyOptions);
+});
+
+Deno.test("ensureCompleteSession replaces mistyped nested objects", () => {
+  const complete = ensureCompleteSession(JSON.parse(JSON.stringify({
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    viewPreferences: 'compact',
+    messageFilters: { enabledTypes: [], respondToAll: 'no' },
+    userPreferences: { 7: { viewPreferences: null, timezone: 3 } }
+  })), 'private');
+
+  assertEquals(complete.viewPreferences, getDefaultViewPreferences(false));
+  assertEquals(complete.messageFilters, getDefaultMessageFilters());
+  assertEquals(complete.userPreferences[7], { viewPreferences: getDefaultViewPreferences(false), timezone: undefined });
+});
+
+Deno.test("ensureCompleteSession leaves a current session unchanged", () => {
+  const session = getDefaultSession('supergroup');
+  session.enabled = true;
+  session.viewPreferences.showFileIds = true;
+  session.viewPreferences.pathFilter = ['message.text'];
+  session.messageFilters.respondToAll = false;
+  session.messageFilters.enabledTypes.reaction = false;
+  session.usePerUserPreferences = true;
+  session.userPreferences[42] = {
+    viewPreferences: { ...getDefaultViewPreferences(true), displayMode: 'full' },
+    timezone: 'Europe/Berlin'
+  };
+
+  const stored = structuredClone(session);
+  assertEquals(ensureCompleteSession(stored, 'supergroup'), session);
+  assertEquals(migrateSession(stored), session);
+});
+
+Deno.test("copyViewPreferences doesn't share nested settings with the original", () => {
+  const original = getDefaultViewPreferences();
+  const copy = copyViewPreferences(original);
+
+  copy.privacyOptions.maskUserIds = true;
+  copy.pathFilter.push('message.text');
+
+  assertEquals(original, getDefaultViewPreferences());
+});
+
+Deno.test("users with only a time zone follow later changes to the group preferences", () => {
+  const session = ensureCompleteSession(JSON.parse(JSON.stringify({
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    userPreferences: { 42: { timezone: 'Europe/Berlin' } }
+  })), 'group');
+  assertEquals(session.userPreferences[42].viewPreferences, undefined);
+
+  session.viewPreferences.displayMode = 'full';
+  session.usePerUserPreferences = true;
+  assertEquals(getEffectivePreferences(session, 42).displayMode, 'full');
+});
+
+Deno.test("getOwnViewPreferences gives a user a copy of the group preferences once", () => {
+  const session = getDefaultSession('group');
+  session.userPreferences[42] = { timezone: 'Europe/Berlin' };
+
+  const own = getOwnViewPreferences(session, 42);
+  own.displayMode = 'full';
+  own.privacyOptions.maskUserIds = true;
+
+  assertEquals(getOwnViewPreferences(session, 42), own);
+  assertEquals(session.userPreferences[42].timezone, 'Europe/Berlin');
+  assertEquals(session.viewPreferences, getDefaultViewPreferences(true));
+});
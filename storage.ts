@@ -0,0 +1,226 @@
+import { freeStorage, MemorySessionStorage, StorageAdapter } from "./deps.ts";
+import { SessionData } from "./session.ts";
+
+/**
+ * Available session storage backends
+ * - 'free': grammY's hosted free storage (needs network access)
+ * - 'memory': In-memory, lost on restart
+ * - 'file': A local JSON file
+ * - 'denokv': Deno KV, local or on Deno Deploy
+ */
+export type StorageBackend = 'free' | 'memory' | 'file' | 'denokv';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['free', 'memory', 'file', 'denokv'];
+
+/**
+ * The adapter interface every backend implements
+ */
+export type SessionStorage = StorageAdapter<SessionData>;
+
+/**
+ * Storage backend selection
+ */
+export interface StorageConfig {
+  /**
+   * Which backend to use
+   */
+  backend: StorageBackend;
+
+  /**
+   * File path for 'file', database path for 'denokv' (optional)
+   */
+  path?: string;
+}
+
+/**
+ * Default file used by the 'file' backend
+ */
+const DEFAULT_SESSION_FILE = './sessions.json';
+
+/**
+ * Checks whether a string names a storage backend
+ */
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+/**
+ * Reads the storage configuration from the STORAGE_BACKEND and STORAGE_PATH
+ * environment variables, defaulting to the free hosted storage
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = Deno.env.get("STORAGE_BACKEND") ?? 'free';
+  if (!isStorageBackend(backend)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${backend}", expected one of: ${STORAGE_BACKENDS.join(', ')}`
+    );
+  }
+
+  return { backend, path: Deno.env.get("STORAGE_PATH") };
+}
+
+/**
+ * Stores values in a local JSON file.
+ * The file is read once and rewritten after every change.
+ */
+export class JsonFileStorage<T = SessionData> implements StorageAdapter<T> {
+  private sessions?: Promise<Map<string, T>>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Loads the file on first use, starting empty if it doesn't exist
+   */
+  private load(): Promise<Map<string, T>> {
+    this.sessions ??= (async () => {
+      try {
+        const text = await Deno.readTextFile(this.path);
+        return new Map(Object.entries(JSON.parse(text) as Record<string, T>));
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return new Map<string, T>();
+        }
+        throw error;
+      }
+    })();
+
+    return this.sessions;
+  }
+
+  /**
+   * Writes all values to the file, one write at a time.
+   * The data goes to a temporary file first so a crash can't leave a half-written file.
+   */
+  private persist(sessions: Map<string, T>): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const temporaryPath = `${this.path}.tmp`;
+      await Deno.writeTextFile(temporaryPath, JSON.stringify(Object.fromEntries(sessions)));
+      await Deno.rename(temporaryPath, this.path);
+    });
+
+    // Keep the queue going even if this write fails
+    this.pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  async read(key: string): Promise<T | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async write(key: string, value: T): Promise<void> {
+    const sessions = await this.load();
+    sessions.set(key, value);
+    await this.persist(sessions);
+  }
+
+  async delete(key: string): Promise<void> {
+    const sessions = await this.load();
+    if (sessions.delete(key)) {
+      await this.persist(sessions);
+    }
+  }
+
+  async *readAllKeys(): AsyncIterable<string> {
+    yield* (await this.load()).keys();
+  }
+}
+
+/**
+ * Stores values in Deno KV under the [prefix, key] key, ["sessions", key] for sessions
+ */
+export class DenoKvStorage<T = SessionData> implements StorageAdapter<T> {
+  private kv?: Promise<Deno.Kv>;
+
+  /**
+   * @param path - Database path, Deno's default database if omitted
+   * @param prefix - First part of every key
+   */
+  constructor(
+    private readonly path?: string,
+    private readonly prefix = 'sessions'
+  ) {}
+
+  private open(): Promise<Deno.Kv> {
+    this.kv ??= Deno.openKv(this.path);
+    return this.kv;
+  }
+
+  async read(key: string): Promise<T | undefined> {
+    const kv = await this.open();
+    const entry = await kv.get<T>([this.prefix, key]);
+    return entry.value ?? undefined;
+  }
+
+  async write(key: string, value: T): Promise<void> {
+    const kv = await this.open();
+    await kv.set([this.prefix, key], value);
+  }
+
+  async delete(key: string): Promise<void> {
+    const kv = await this.open();
+    await kv.delete([this.prefix, key]);
+  }
+
+  async *readAllKeys(): AsyncIterable<string> {
+    const kv = await this.open();
+    for await (const entry of kv.list({ prefix: [this.prefix] })) {
+      yield String(entry.key[1]);
+    }
+  }
+}
+
+/**
+ * Creates the storage for a configuration
+ *
+ * @param config - Which backend to use and where it stores its data
+ * @param token - Bot token, needed by the free hosted storage
+ */
+export function createStorage<T = SessionData>(config: StorageConfig, token: string): StorageAdapter<T> {
+  switch (config.backend) {
+    case 'free':
+      return freeStorage<T>(token);
+    case 'memory':
+      return new MemorySessionStorage<T>();
+    case 'file':
+      return new JsonFileStorage<T>(config.path ?? DEFAULT_SESSION_FILE);
+    case 'denokv':
+      return new DenoKvStorage<T>(config.path);
+  }
+}
+
+/**
+ * Copies sessions from one backend to another.
+ * Existing sessions in the target with the same keys are overwritten.
+ *
+ * @param source - Backend to copy from
+ * @param target - Backend to copy to
+ * @param keys - Session keys (chat IDs) to copy, required if the source can't list its keys
+ * @returns Number of sessions copied
+ */
+export async function migrateSessions(
+  source: SessionStorage,
+  target: SessionStorage,
+  keys?: string[]
+): Promise<number> {
+  const sourceKeys = keys && keys.length > 0 ? keys : source.readAllKeys?.();
+  if (!sourceKeys) {
+    throw new Error(
+      "The source backend can't list its sessions, pass the session keys (chat IDs) to copy"
+    );
+  }
+
+  let copied = 0;
+  for await (const key of sourceKeys) {
+    const value = await source.read(key);
+    if (value === undefined) {
+      console.warn(`No session stored for key ${key}, skipping`);
+      continue;
+    }
+
+    await target.write(key, value);
+    copied++;
+  }
+
+  return copied;
+}
@@ -0,0 +1,362 @@
+import { Message } from "./deps.ts";
+import { getMessageContentType, MessageType } from "./session.ts";
+
+/**
+ * A labelled detail of a message, e.g. ['Duration', '1:05']
+ */
+export type SummaryField = [label: string, value: string];
+
+/**
+ * Short description of a message's content, as shown in compact and full mode
+ */
+export interface MessageSummary {
+  /**
+   * Name of the message kind, e.g. 'Photo'
+   */
+  type: string;
+
+  /**
+   * Details of the content in the order they are shown (plain text, not escaped)
+   */
+  fields: SummaryField[];
+}
+
+/**
+ * Maximum length of text and captions in a summary
+ */
+const PREVIEW_LENGTH = 100;
+
+/**
+ * Message fields that describe the message rather than its content,
+ * skipped when looking for the kind of a message without a summarizer
+ */
+const METADATA_FIELDS = new Set([
+  'message_id', 'message_thread_id', 'from', 'sender_chat', 'sender_boost_count',
+  'sender_business_bot', 'date', 'business_connection_id', 'chat', 'forward_origin',
+  'is_topic_message', 'is_automatic_forward', 'reply_to_message', 'external_reply', 'quote',
+  'reply_to_story', 'via_bot', 'edit_date', 'has_protected_content', 'is_from_offline',
+  'media_group_id', 'author_signature', 'reply_markup', 'link_preview_options', 'effect_id',
+  'show_caption_above_media', 'has_media_spoiler', 'caption', 'caption_entities', 'entities',
+]);
+
+/**
+ * vCard properties shown for contacts, with their labels
+ */
+const VCARD_FIELDS: Record<string, string> = {
+  FN: 'vCard Name',
+  TEL: 'vCard Phone',
+  EMAIL: 'vCard Email',
+  ORG: 'vCard Organization',
+  TITLE: 'vCard Title',
+  ADR: 'vCard Address',
+  URL: 'vCard URL',
+  BDAY: 'vCard Birthday',
+  NOTE: 'vCard Note',
+};
+
+/**
+ * Shortens text to the preview length
+ */
+function preview(text: string): string {
+  return text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}...` : text;
+}
+
+/**
+ * Formats a duration in seconds as m:ss or h:mm:ss
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+/**
+ * Formats a file size in bytes, e.g. 1.5 MB
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Turns a snake_case field name into a label, e.g. new_chat_members → New chat members
+ */
+function formatFieldName(field: string): string {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Parses the properties of a vCard into labelled fields
+ */
+function parseVcard(vcard: string): SummaryField[] {
+  const fields: SummaryField[] = [];
+
+  // Lines starting with whitespace continue the previous line
+  const lines = vcard.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    // Drop parameters like TEL;TYPE=CELL
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).replace(/;+/g, ' ').trim();
+
+    if (property in VCARD_FIELDS && value) {
+      fields.push([VCARD_FIELDS[property], value]);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Summarizers of the message types the filters know, by type
+ */
+const SUMMARIZERS: Partial<Record<MessageType, (message: Message) => SummaryField[]>> = {
+  text: (message) => [
+    ['Content', preview(message.text ?? '')],
+    ['Length', `${message.text?.length ?? 0} characters`],
+    ...(message.entities?.length
+      ? [['Entities', message.entities.map((entity) => entity.type).join(', ')] as SummaryField]
+      : []),
+  ],
+
+  photo: (message) => {
+    const sizes = message.photo ?? [];
+    const largest = sizes.reduce(
+      (best, size) => size.width * size.height > best.width * best.height ? size : best,
+      sizes[0]
+    );
+
+    const fields: SummaryField[] = [
+      ['Sizes', sizes.map((size) => `${size.width}×${size.height}`).join(', ')],
+    ];
+    if (largest) {
+      fields.push(['Largest', `${largest.width}×${largest.height}`]);
+      if (largest.file_size !== undefined) {
+        fields.push(['File Size', formatFileSize(largest.file_size)]);
+      }
+    }
+    return fields;
+  },
+
+  video: (message) => {
+    const video = message.video!;
+    const fields: SummaryField[] = [
+      ['Duration', formatDuration(video.duration)],
+      ['Resolution', `${video.width}×${video.height}`],
+    ];
+    if (video.mime_type) fields.push(['MIME Type', video.mime_type]);
+    if (video.file_name) fields.push(['File Name', video.file_name]);
+    if (video.file_size !== undefined) fields.push(['File Size', formatFileSize(video.file_size)]);
+    return fields;
+  },
+
+  animation: (message) => {
+    const animation = message.animation!;
+    const fields: SummaryField[] = [
+      ['Duration', formatDuration(animation.duration)],
+      ['Resolution', `${animation.width}×${animation.height}`],
+    ];
+    if (animation.mime_type) fields.push(['MIME Type', animation.mime_type]);
+    if (animation.file_size !== undefined) fields.push(['File Size', formatFileSize(animation.file_size)]);
+    return fields;
+  },
+
+  document: (message) => {
+    const document = message.document!;
+    const fields: SummaryField[] = [];
+    if (document.file_name) fields.push(['File Name', document.file_name]);
+    if (document.mime_type) fields.push(['MIME Type', document.mime_type]);
+    if (document.file_size !== undefined) fields.push(['File Size', formatFileSize(document.file_size)]);
+    return fields;
+  },
+
+  audio: (message) => {
+    const audio = message.audio!;
+    const fields: SummaryField[] = [];
+    if (audio.performer) fields.push(['Performer', audio.performer]);
+    if (audio.title) fields.push(['Title', audio.title]);
+    fields.push(['Duration', formatDuration(audio.duration)]);
+    if (audio.mime_type) fields.push(['MIME Type', audio.mime_type]);
+    if (audio.file_size !== undefined) fields.push(['File Size', formatFileSize(audio.file_size)]);
+    return fields;
+  },
+
+  sticker: (message) => {
+    const sticker = message.sticker!;
+    const format = sticker.is_animated ? 'Animated (TGS)' : sticker.is_video ? 'Video (WebM)' : 'Static (WebP)';
+    const fields: SummaryField[] = [];
+    if (sticker.emoji) fields.push(['Emoji', sticker.emoji]);
+    if (sticker.set_name) fields.push(['Set', sticker.set_name]);
+    fields.push(['Format', format]);
+    fields.push(['Sticker Type', sticker.type]);
+    fields.push(['Size', `${sticker.width}×${sticker.height}`]);
+    return fields;
+  },
+
+  voice: (message) => {
+    const voice = message.voice!;
+    const fields: SummaryField[] = [['Duration', formatDuration(voice.duration)]];
+    if (voice.mime_type) fields.push(['MIME Type', voice.mime_type]);
+    if (voice.file_size !== undefined) fields.push(['File Size', formatFileSize(voice.file_size)]);
+    return fields;
+  },
+
+  poll: (message) => {
+    const poll = message.poll!;
+    const fields: SummaryField[] = [
+      ['Question', preview(poll.question)],
+      ...poll.options.map((option, index): SummaryField => [
+        `Option ${index + 1}`,
+        `${option.text} (${option.voter_count} vote${option.voter_count === 1 ? '' : 's'})`,
+      ]),
+      ['Poll Type', poll.type === 'quiz' ? 'Quiz' : 'Regular'],
+      ['Anonymous', poll.is_anonymous ? 'Yes' : 'No'],
+    ];
+    if (poll.type === 'regular') {
+      fields.push(['Multiple Answers', poll.allows_multiple_answers ? 'Yes' : 'No']);
+    }
+    if (poll.correct_option_id !== undefined) {
+      fields.push(['Correct Option', String(poll.correct_option_id + 1)]);
+    }
+    fields.push(['Voters', String(poll.total_voter_count)]);
+    fields.push(['Closed', poll.is_closed ? 'Yes' : 'No']);
+    return fields;
+  },
+
+  location: (message) => {
+    const location = message.location!;
+    const fields: SummaryField[] = [];
+
+    // Venues carry their location too
+    if (message.venue) {
+      fields.push(['Venue', message.venue.title]);
+      fields.push(['Address', message.venue.address]);
+    }
+
+    fields.push(['Coordinates', `${location.latitude}, ${location.longitude}`]);
+    if (location.horizontal_accuracy !== undefined) {
+      fields.push(['Accuracy', `${location.horizontal_accuracy} m`]);
+    }
+    if (location.live_period !== undefined) {
+      fields.push([
+        'Live Period',
+        // 0x7FFFFFFF means the location is shared indefinitely
+        location.live_period === 0x7FFFFFFF ? 'Indefinite' : formatDuration(location.live_period),
+      ]);
+    }
+    if (location.heading !== undefined) {
+      fields.push(['Heading', `${location.heading}°`]);
+    }
+    return fields;
+  },
+
+  contact: (message) => {
+    const contact = message.contact!;
+    const fields: SummaryField[] = [
+      ['Name', [contact.first_name, contact.last_name].filter(Boolean).join(' ')],
+      ['Phone', String(contact.phone_number)],
+    ];
+    if (contact.user_id !== undefined) {
+      fields.push(['User ID', String(contact.user_id)]);
+    }
+    if (contact.vcard) {
+      fields.push(...parseVcard(contact.vcard));
+    }
+    return fields;
+  },
+};
+
+/**
+ * Summarizes messages the filters don't distinguish, returns undefined for unknown kinds
+ */
+function summarizeOtherMessage(message: Message): MessageSummary | undefined {
+  if (message.video_note) {
+    return {
+      type: 'Video Note',
+      fields: [
+        ['Duration', formatDuration(message.video_note.duration)],
+        ['Diameter', `${message.video_note.length} px`],
+      ],
+    };
+  }
+
+  if (message.dice) {
+    return { type: 'Dice', fields: [['Emoji', message.dice.emoji], ['Value', String(message.dice.value)]] };
+  }
+
+  if (message.game) {
+    return { type: 'Game', fields: [['Title', message.game.title]] };
+  }
+
+  if (message.invoice) {
+    return {
+      type: 'Invoice',
+      fields: [
+        ['Title', message.invoice.title],
+        ['Amount', `${message.invoice.total_amount} ${message.invoice.currency} (smallest units)`],
+      ],
+    };
+  }
+
+  if (message.story) {
+    return { type: 'Story', fields: [['Story ID', String(message.story.id)]] };
+  }
+
+  if (message.paid_media) {
+    return {
+      type: 'Paid Media',
+      fields: [
+        ['Items', String(message.paid_media.paid_media.length)],
+        ['Price', `${message.paid_media.star_count} Stars`],
+      ],
+    };
+  }
+
+  // Service messages and newer content: name the kind by its field
+  const field = Object.keys(message).find((key) => !METADATA_FIELDS.has(key));
+  return field ? { type: formatFieldName(field), fields: [] } : undefined;
+}
+
+/**
+ * Summarizes the content of a message
+ *
+ * @param message - The (already masked) message
+ * @returns The kind of the message and its details, with the caption if there is one
+ */
+export function summarizeMessage(message: Message): MessageSummary {
+  const contentType = getMessageContentType(message);
+  const summarize = contentType ? SUMMARIZERS[contentType] : undefined;
+
+  const summary: MessageSummary = contentType && summarize
+    ? { type: formatFieldName(contentType), fields: summarize(message) }
+    : summarizeOtherMessage(message) ?? { type: 'Other', fields: [] };
+
+  // Venues are filtered as locations but deserve their own name
+  if (message.venue) {
+    summary.type = 'Venue';
+  }
+
+  if (message.caption) {
+    summary.fields.push(['Caption', preview(message.caption)]);
+  }
+
+  return summary;
+}
@@ -0,0 +1,160 @@
+import { appendToPath } from "./query.ts";
+
+/**
+ * A Unix time found in an update
+ */
+export interface TimestampField {
+  /**
+   * Path of the field, e.g. message.forward_origin.date
+   */
+  path: string;
+
+  /**
+   * The Unix time, 0 for fields where it means "never" (e.g. until_date)
+   */
+  timestamp: number;
+
+  /**
+   * What the time is if it isn't the field itself, e.g. the end of a live location
+   */
+  label?: string;
+}
+
+/**
+ * Fields that hold a Unix time wherever they appear in an update
+ */
+const TIMESTAMP_FIELDS = new Set([
+  'date',
+  'edit_date',
+  'forward_date',
+  'until_date',
+  'expire_date',
+  'close_date',
+  'start_date',
+  'add_date',
+  'expiration_date',
+  'winners_selection_date',
+  'emoji_status_expiration_date',
+]);
+
+/**
+ * live_period of a live location that can be updated indefinitely
+ */
+const INDEFINITE_LIVE_PERIOD = 0x7FFFFFFF;
+
+/**
+ * Units of relative times, from the largest
+ */
+const RELATIVE_UNITS: [unit: string, seconds: number][] = [
+  ['y', 365 * 24 * 60 * 60],
+  ['d', 24 * 60 * 60],
+  ['h', 60 * 60],
+  ['min', 60],
+  ['s', 1],
+];
+
+/**
+ * Finds every known timestamp in an update, including the end of live locations,
+ * which is their live_period counted from the date of the message carrying them
+ *
+ * @param value - The update or part of it to search
+ * @param path - Path of the value, empty for the update itself
+ * @param sentDate - Date of the closest enclosing object that has one
+ * @returns The timestamps in document order
+ */
+export function findTimestamps(value: unknown, path = '', sentDate?: number): TimestampField[] {
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((element, index) => findTimestamps(element, appendToPath(path, index), sentDate));
+  }
+
+  const record = value as Record<string, unknown>;
+  const baseDate = typeof record.date === 'number' ? record.date : sentDate;
+
+  return Object.entries(record).flatMap(([key, child]) => {
+    const childPath = appendToPath(path, key);
+
+    if (typeof child === 'number' && TIMESTAMP_FIELDS.has(key)) {
+      return [{ path: childPath, timestamp: child }];
+    }
+
+    if (key === 'live_period' && typeof child === 'number' && baseDate !== undefined) {
+      return [{
+        path: childPath,
+        timestamp: child === INDEFINITE_LIVE_PERIOD ? 0 : baseDate + child,
+        label: 'live until'
+      }];
+    }
+
+    return findTimestamps(child, childPath, baseDate);
+  });
+}
+
+/**
+ * Checks whether a string is an IANA time zone the runtime knows, e.g. Europe/Berlin
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a Unix time as ISO 8601 in a time zone, e.g. 2024-05-01T14:03:00+02:00
+ *
+ * @param timestamp - The Unix time
+ * @param timeZone - IANA time zone, UTC if it isn't valid
+ */
+export function formatIsoTimestamp(timestamp: number, timeZone: string): string {
+  const date = new Date(timestamp * 1000);
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimezone(timeZone) ? timeZone : 'UTC',
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  // The offset is the difference between the local wall time and UTC
+  const local = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  const offset = Math.round((local - date.getTime()) / 60000);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}` +
+    (offset === 0 ? 'Z' : `${sign}${hours}:${minutes}`);
+}
+
+/**
+ * Describes a Unix time relative to now in its largest whole unit, e.g. "3 min ago" or "in 2 h"
+ *
+ * @param timestamp - The Unix time
+ * @param now - The current time in milliseconds
+ */
+export function formatRelativeTime(timestamp: number, now = Date.now()): string {
+  const difference = timestamp - Math.floor(now / 1000);
+  const [unit, seconds] = RELATIVE_UNITS.find(([, seconds]) => Math.abs(difference) >= seconds) ??
+    RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+  const amount = Math.floor(Math.abs(difference) / seconds);
+
+  if (amount === 0) {
+    return 'now';
+  }
+
+  return difference < 0 ? `${amount} ${unit} ago` : `in ${amount} ${unit}`;
+}
@@ -0,0 +1,459 @@
+import {
+  fillDefaults,
+  getDefaultMessageFilters,
+  getDefaultViewPreferences,
+  migrateSession,
+  SESSION_SCHEMA_VERSION,
+  SessionData,
+  ViewPreferences
+} from "./session.ts";
+import { parsePath } from "./query.ts";
+import { isValidTimezone } from "./timestamps.ts";
+
+/**
+ * Version of the export format created by /export.
+ * Version 1 is the original unversioned {v, f, u} code, which can still be imported.
+ */
+export const EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * Number of hex digits of the SHA-256 checksum kept in an export.
+ * Also used as the ID of shared exports, so it has to fit in a start parameter.
+ */
+const CHECKSUM_LENGTH = 16;
+
+/**
+ * Maximum number of changes listed in an import preview
+ */
+const MAX_LISTED_CHANGES = 15;
+
+/**
+ * The settings carried by an export. Sections may be missing or incomplete,
+ * missing fields keep their current values when imported.
+ */
+export type ExportedSettings = Pick<
+  Partial<SessionData>,
+  'schemaVersion' | 'viewPreferences' | 'messageFilters' | 'usePerUserPreferences' | 'userPreferences'
+>;
+
+/**
+ * The decoded content of an export code
+ */
+interface SettingsExport {
+  /**
+   * Export format version
+   */
+  version: number;
+
+  /**
+   * The exported settings
+   */
+  settings: ExportedSettings;
+
+  /**
+   * Truncated SHA-256 of the settings, to detect codes that were changed or copied incompletely
+   */
+  checksum: string;
+}
+
+/**
+ * Result of reading an export code
+ */
+export type ImportResult =
+  | { ok: true; id: string; settings: ExportedSettings }
+  | { ok: false; errors: string[] };
+
+/**
+ * Allowed values of settings that are a choice between a few strings, by field name
+ */
+const SETTING_CHOICES: Record<string, readonly string[]> = {
+  displayMode: ['compact', 'full', 'raw', 'types'] satisfies ViewPreferences['displayMode'][],
+  overflowStrategy: ['split', 'document'] satisfies ViewPreferences['overflowStrategy'][],
+  rawFormat: ['json', 'yaml', 'compact', 'flat', 'pruned'] satisfies ViewPreferences['rawFormat'][],
+};
+
+/**
+ * Checks of settings the type alone doesn't make valid, by field name (for lists, of each element).
+ * They match what the commands setting these fields accept.
+ *
+ * @returns What is wrong with the value, or undefined if it is valid
+ */
+const SETTING_CHECKS: Record<string, (value: unknown) => string | undefined> = {
+  pruneArrayLimit: (value) =>
+    Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 100
+      ? undefined
+      : 'must be a whole number from 1 to 100',
+  timezone: (value) => isValidTimezone(value as string) ? undefined : 'must be a time zone like Europe/Berlin',
+  pathFilter: (value) => {
+    try {
+      parsePath(value as string);
+      return undefined;
+    } catch (error) {
+      return `must be a path like message.text (${(error as Error).message})`;
+    }
+  },
+};
+
+/**
+ * Checks whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Serializes a value as JSON with sorted object keys, so equal settings always give the same checksum
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the checksum of exported settings
+ */
+async function computeChecksum(settings: ExportedSettings): Promise<string> {
+  const data = new TextEncoder().encode(canonicalJson(settings));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  const hex = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return hex.slice(0, CHECKSUM_LENGTH);
+}
+
+/**
+ * Number of bytes converted to a string at once when encoding base64,
+ * as passing too many arguments to String.fromCharCode overflows the stack
+ */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * Encodes text as URL-safe base64 without padding
+ */
+function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe or standard base64 to text
+ */
+function decodeBase64(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+  const bytes = Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describeValue(value: unknown): string {
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 30 ? `${json.slice(0, 30)}…` : json;
+}
+
+/**
+ * Checks a value against the shape of its default value, collecting a message for every problem.
+ * Missing fields are allowed, they keep their current values on import.
+ *
+ * @param value - The imported value
+ * @param defaults - Default value with the complete shape
+ * @param path - Path of the value, used in error messages
+ * @param errors - List the problems are added to
+ */
+function validateShape(value: unknown, defaults: unknown, path: string, errors: string[]): void {
+  const field = path.slice(path.lastIndexOf('.') + 1);
+  const check = SETTING_CHECKS[field];
+
+  // Lists are lists of strings, like the path filter
+  if (Array.isArray(defaults)) {
+    if (!Array.isArray(value) || value.some((element) => typeof element !== 'string')) {
+      errors.push(`${path} must be a list of strings (got ${describeValue(value)})`);
+      return;
+    }
+
+    value.forEach((element, index) => {
+      const problem = check?.(element);
+      if (problem) {
+        errors.push(`${path}[${index}] ${problem} (got ${describeValue(element)})`);
+      }
+    });
+    return;
+  }
+
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(value)) {
+      errors.push(`${path} must be an object (got ${describeValue(value)})`);
+      return;
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (!(key in defaults)) {
+        errors.push(`${path}.${key} is not a known setting`);
+      } else {
+        validateShape(child, defaults[key], `${path}.${key}`, errors);
+      }
+    }
+    return;
+  }
+
+  if (typeof value !== typeof defaults) {
+    errors.push(`${path} must be a ${typeof defaults} (got ${describeValue(value)})`);
+    return;
+  }
+
+  const choices = SETTING_CHOICES[field];
+  if (choices && !choices.includes(value as string)) {
+    errors.push(`${path} must be one of ${choices.join(', ')} (got ${describeValue(value)})`);
+    return;
+  }
+
+  const problem = check?.(value);
+  if (problem) {
+    errors.push(`${path} ${problem} (got ${describeValue(value)})`);
+  }
+}
+
+/**
+ * Validates exported settings
+ *
+ * @returns A message for every problem found, empty if the settings are valid
+ */
+function validateSettings(settings: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isPlainObject(settings)) {
+    return [`settings must be an object (got ${describeValue(settings)})`];
+  }
+
+  const viewDefaults = getDefaultViewPreferences();
+
+  for (const [key, value] of Object.entries(settings)) {
+    switch (key) {
+      case 'schemaVersion':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          errors.push(`schemaVersion must be a whole number (got ${describeValue(value)})`);
+        } else if (value > SESSION_SCHEMA_VERSION) {
+          errors.push('schemaVersion is newer than this bot supports, the code was exported by a newer version');
+        }
+        break;
+      case 'viewPreferences':
+        validateShape(value, viewDefaults, key, errors);
+        break;
+      case 'messageFilters':
+        validateShape(value, getDefaultMessageFilters(), key, errors);
+        break;
+      case 'usePerUserPreferences':
+        validateShape(value, false, key, errors);
+        break;
+      case 'userPreferences':
+        if (!isPlainObject(value)) {
+          errors.push(`userPreferences must be an object (got ${describeValue(value)})`);
+          break;
+        }
+        for (const [userId, preferences] of Object.entries(value)) {
+          if (!/^\d+$/.test(userId)) {
+            errors.push(`userPreferences.${userId} must be keyed by a user ID`);
+          } else {
+            validateShape(
+              preferences,
+              { viewPreferences: viewDefaults, timezone: 'UTC' },
+              `userPreferences.${userId}`,
+              errors
+            );
+          }
+        }
+        break;
+      default:
+        errors.push(`${key} is not a known setting`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Creates an export code for a chat's settings
+ *
+ * @param session - The chat's session
+ * @param includeUsers - Whether to include the per-user preferences
+ * @returns The code to pass to /import, and its ID for sharing
+ */
+export async function createSettingsExport(
+  session: SessionData,
+  includeUsers = false
+): Promise<{ code: string; id: string }> {
+  const settings: ExportedSettings = {
+    schemaVersion: session.schemaVersion,
+    viewPreferences: session.viewPreferences,
+    messageFilters: session.messageFilters,
+    usePerUserPreferences: session.usePerUserPreferences,
+    userPreferences: includeUsers ? session.userPreferences : undefined
+  };
+
+  const checksum = await computeChecksum(settings);
+  const exported: SettingsExport = { version: EXPORT_FORMAT_VERSION, settings, checksum };
+
+  return { code: encodeBase64Url(JSON.stringify(exported)), id: checksum };
+}
+
+/**
+ * Reads and validates an export code
+ *
+ * @param code - Code created by /export, or an old unversioned code
+ * @returns The settings and their ID, or every problem found in the code
+ */
+export async function parseSettingsExport(code: string): Promise<ImportResult> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(decodeBase64(code.trim()));
+  } catch {
+    return { ok: false, errors: ["The code couldn't be decoded, make sure it was copied completely"] };
+  }
+
+  if (!isPlainObject(decoded)) {
+    return { ok: false, errors: ['The code does not contain settings'] };
+  }
+
+  let settings: unknown;
+
+  if (decoded.version === undefined) {
+    // Version 1: the original {v, f, u} code without a checksum, from before the schema was versioned
+    settings = {
+      schemaVersion: 0,
+      viewPreferences: decoded.v,
+      messageFilters: decoded.f,
+      usePerUserPreferences: decoded.u
+    };
+    // Drop the sections the old code didn't have
+    settings = JSON.parse(JSON.stringify(settings));
+  } else {
+    if (typeof decoded.version !== 'number') {
+      return { ok: false, errors: [`version must be a number (got ${describeValue(decoded.version)})`] };
+    }
+
+    if (decoded.version > EXPORT_FORMAT_VERSION) {
+      return {
+        ok: false,
+        errors: [`The code uses export format ${decoded.version}, this bot only reads up to ${EXPORT_FORMAT_VERSION}`]
+      };
+    }
+
+    settings = decoded.settings;
+  }
+
+  const errors = validateSettings(settings);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const id = await computeChecksum(settings as ExportedSettings);
+  if (decoded.version !== undefined && decoded.checksum !== id) {
+    return { ok: false, errors: ["The checksum doesn't match, the code was changed or copied incompletely"] };
+  }
+
+  return { ok: true, id, settings: settings as ExportedSettings };
+}
+
+/**
+ * Applies imported settings to a session.
+ * Sections and fields missing from the import keep their current values,
+ * imported per-user preferences replace those of the same users.
+ *
+ * @param session - The current session, which is left unchanged
+ * @param settings - Validated settings from parseSettingsExport
+ * @returns The updated session
+ */
+export function applyImportedSettings(session: SessionData, settings: ExportedSettings): SessionData {
+  // Bring settings exported by older versions up to date first
+  const imported = migrateSession({ schemaVersion: SESSION_SCHEMA_VERSION, ...settings });
+
+  const userPreferences = { ...session.userPreferences };
+  for (const [userId, preferences] of Object.entries(imported.userPreferences ?? {})) {
+    const current = userPreferences[Number(userId)];
+    userPreferences[Number(userId)] = {
+      // Users imported with only a time zone keep following the group preferences
+      viewPreferences: preferences.viewPreferences === undefined
+        ? current?.viewPreferences
+        : fillDefaults(preferences.viewPreferences, current?.viewPreferences ?? session.viewPreferences),
+      timezone: preferences.timezone ?? current?.timezone
+    };
+  }
+
+  return {
+    ...session,
+    viewPreferences: fillDefaults(imported.viewPreferences, session.viewPreferences),
+    messageFilters: fillDefaults(imported.messageFilters, session.messageFilters),
+    usePerUserPreferences: imported.usePerUserPreferences ?? session.usePerUserPreferences,
+    userPreferences
+  };
+}
+
+/**
+ * Flattens the leaves of a settings object into "path: value" pairs
+ */
+function flattenSettings(value: unknown, path: string, into: Map<string, string>): Map<string, string> {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenSettings(child, path ? `${path}.${key}` : key, into);
+    }
+  } else {
+    into.set(path, JSON.stringify(value));
+  }
+
+  return into;
+}
+
+/**
+ * Lists the settings an import would change, for the preview shown before applying it
+ *
+ * @param current - The current session
+ * @param next - The session with the import applied
+ * @returns One "setting: old → new" line per change
+ */
+export function describeSettingsChanges(current: SessionData, next: SessionData): string[] {
+  const { userPreferences: currentUsers, ...currentSettings } = current;
+  const { userPreferences: nextUsers, ...nextSettings } = next;
+
+  const before = flattenSettings(currentSettings, '', new Map());
+  const after = flattenSettings(nextSettings, '', new Map());
+
+  const changes: string[] = [];
+  for (const [path, value] of after) {
+    const previous = before.get(path) ?? 'unset';
+    if (previous !== value) {
+      changes.push(`${path}: ${previous} → ${value}`);
+    }
+  }
+
+  if (changes.length > MAX_LISTED_CHANGES) {
+    const hidden = changes.length - MAX_LISTED_CHANGES;
+    changes.splice(MAX_LISTED_CHANGES, hidden, `…and ${hidden} more`);
+  }
+
+  const changedUsers = Object.keys(nextUsers).filter(
+    (userId) => canonicalJson(nextUsers[Number(userId)]) !== canonicalJson(currentUsers[Number(userId)])
+  );
+  if (changedUsers.length > 0) {
+    changes.push(`Per-user preferences of ${changedUsers.length} user(s)`);
+  }
+
+  return changes;
+}
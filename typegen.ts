@@ -0,0 +1,330 @@
+/**
+ * A Bot API type from grammy_types that inferred shapes can be matched against
+ */
+interface KnownType {
+  /**
+   * Keys every object of this type has
+   */
+  required: string[];
+
+  /**
+   * Key and value that tell apart the variants of a union type
+   */
+  discriminator?: [string, string];
+}
+
+/**
+ * Known Bot API types, by their grammy_types name
+ */
+const KNOWN_TYPES: Record<string, KnownType> = {
+  Update: { required: ['update_id'] },
+  Message: { required: ['message_id', 'date', 'chat'] },
+  User: { required: ['id', 'is_bot', 'first_name'] },
+  Chat: { required: ['id', 'type'] },
+  MessageEntity: { required: ['type', 'offset', 'length'] },
+  PhotoSize: { required: ['file_id', 'file_unique_id', 'width', 'height'] },
+  Animation: { required: ['file_id', 'file_unique_id', 'width', 'height', 'duration'] },
+  Audio: { required: ['file_id', 'file_unique_id', 'duration'] },
+  Document: { required: ['file_id', 'file_unique_id'] },
+  Video: { required: ['file_id', 'file_unique_id', 'width', 'height', 'duration'] },
+  VideoNote: { required: ['file_id', 'file_unique_id', 'length', 'duration'] },
+  Voice: { required: ['file_id', 'file_unique_id', 'duration'] },
+  Sticker: { required: ['file_id', 'file_unique_id', 'type', 'width', 'height', 'is_animated', 'is_video'] },
+  Contact: { required: ['phone_number', 'first_name'] },
+  Location: { required: ['latitude', 'longitude'] },
+  Venue: { required: ['location', 'title', 'address'] },
+  Poll: { required: ['id', 'question', 'options', 'total_voter_count', 'is_closed', 'is_anonymous', 'type'] },
+  PollOption: { required: ['text', 'voter_count'] },
+  PollAnswer: { required: ['poll_id', 'option_ids'] },
+  Dice: { required: ['emoji', 'value'] },
+  CallbackQuery: { required: ['id', 'from', 'chat_instance'] },
+  InlineQuery: { required: ['id', 'from', 'query', 'offset'] },
+  ChosenInlineResult: { required: ['result_id', 'from', 'query'] },
+  ChatMemberUpdated: { required: ['chat', 'from', 'date', 'old_chat_member', 'new_chat_member'] },
+  ChatJoinRequest: { required: ['chat', 'from', 'user_chat_id', 'date'] },
+  MessageReactionUpdated: { required: ['chat', 'message_id', 'date', 'old_reaction', 'new_reaction'] },
+  MessageReactionCountUpdated: { required: ['chat', 'message_id', 'date', 'reactions'] },
+  LinkPreviewOptions: { required: [] },
+  InlineKeyboardMarkup: { required: ['inline_keyboard'] },
+  InlineKeyboardButton: { required: ['text'] },
+  ExternalReplyInfo: { required: ['origin'] },
+  TextQuote: { required: ['text', 'position'] },
+  MessageOriginUser: { required: ['type', 'date', 'sender_user'], discriminator: ['type', 'user'] },
+  MessageOriginHiddenUser: { required: ['type', 'date', 'sender_user_name'], discriminator: ['type', 'hidden_user'] },
+  MessageOriginChat: { required: ['type', 'date', 'sender_chat'], discriminator: ['type', 'chat'] },
+  MessageOriginChannel: { required: ['type', 'date', 'chat', 'message_id'], discriminator: ['type', 'channel'] },
+  ReactionTypeEmoji: { required: ['type', 'emoji'], discriminator: ['type', 'emoji'] },
+  ReactionTypeCustomEmoji: { required: ['type', 'custom_emoji_id'], discriminator: ['type', 'custom_emoji'] },
+  ReactionTypePaid: { required: ['type'], discriminator: ['type', 'paid'] },
+  ChatMemberOwner: { required: ['status', 'user'], discriminator: ['status', 'creator'] },
+  ChatMemberAdministrator: { required: ['status', 'user'], discriminator: ['status', 'administrator'] },
+  ChatMemberMember: { required: ['status', 'user'], discriminator: ['status', 'member'] },
+  ChatMemberRestricted: { required: ['status', 'user'], discriminator: ['status', 'restricted'] },
+  ChatMemberLeft: { required: ['status', 'user'], discriminator: ['status', 'left'] },
+  ChatMemberBanned: { required: ['status', 'user'], discriminator: ['status', 'kicked'] },
+  WebAppData: { required: ['data', 'button_text'] },
+};
+
+const MESSAGE_ORIGINS = ['MessageOriginUser', 'MessageOriginHiddenUser', 'MessageOriginChat', 'MessageOriginChannel'];
+const REACTION_TYPES = ['ReactionTypeEmoji', 'ReactionTypeCustomEmoji', 'ReactionTypePaid'];
+const CHAT_MEMBERS = [
+  'ChatMemberOwner', 'ChatMemberAdministrator', 'ChatMemberMember',
+  'ChatMemberRestricted', 'ChatMemberLeft', 'ChatMemberBanned'
+];
+
+/**
+ * Known types a field usually holds, tried in order
+ */
+const FIELD_HINTS: Record<string, string[]> = {
+  message: ['Message'],
+  edited_message: ['Message'],
+  channel_post: ['Message'],
+  edited_channel_post: ['Message'],
+  business_message: ['Message'],
+  edited_business_message: ['Message'],
+  reply_to_message: ['Message'],
+  pinned_message: ['Message'],
+  from: ['User'],
+  user: ['User'],
+  sender_user: ['User'],
+  new_chat_members: ['User'],
+  left_chat_member: ['User'],
+  via_bot: ['User'],
+  sender_business_bot: ['User'],
+  chat: ['Chat'],
+  sender_chat: ['Chat'],
+  voter_chat: ['Chat'],
+  actor_chat: ['Chat'],
+  entities: ['MessageEntity'],
+  caption_entities: ['MessageEntity'],
+  photo: ['PhotoSize'],
+  thumbnail: ['PhotoSize'],
+  new_chat_photo: ['PhotoSize'],
+  animation: ['Animation'],
+  audio: ['Audio'],
+  document: ['Document'],
+  video: ['Video'],
+  video_note: ['VideoNote'],
+  voice: ['Voice'],
+  sticker: ['Sticker'],
+  contact: ['Contact'],
+  location: ['Location'],
+  venue: ['Venue'],
+  poll: ['Poll'],
+  options: ['PollOption'],
+  poll_answer: ['PollAnswer'],
+  dice: ['Dice'],
+  callback_query: ['CallbackQuery'],
+  inline_query: ['InlineQuery'],
+  chosen_inline_result: ['ChosenInlineResult'],
+  my_chat_member: ['ChatMemberUpdated'],
+  chat_member: ['ChatMemberUpdated'],
+  old_chat_member: CHAT_MEMBERS,
+  new_chat_member: CHAT_MEMBERS,
+  chat_join_request: ['ChatJoinRequest'],
+  message_reaction: ['MessageReactionUpdated'],
+  message_reaction_count: ['MessageReactionCountUpdated'],
+  old_reaction: REACTION_TYPES,
+  new_reaction: REACTION_TYPES,
+  link_preview_options: ['LinkPreviewOptions'],
+  reply_markup: ['InlineKeyboardMarkup'],
+  inline_keyboard: ['InlineKeyboardButton'],
+  external_reply: ['ExternalReplyInfo'],
+  quote: ['TextQuote'],
+  forward_origin: MESSAGE_ORIGINS,
+  origin: MESSAGE_ORIGINS,
+  web_app_data: ['WebAppData'],
+};
+
+/**
+ * A field of an inferred interface
+ */
+interface InferredField {
+  /**
+   * Every type seen for this field
+   */
+  types: Set<string>;
+
+  /**
+   * Number of samples the field was present in
+   */
+  seen: number;
+}
+
+/**
+ * An interface inferred from one or more objects
+ */
+interface InferredInterface {
+  known: boolean;
+  samples: number;
+  fields: Map<string, InferredField>;
+}
+
+/**
+ * Converts a snake_case field name to a PascalCase type name
+ */
+function toTypeName(field: string): string {
+  const name = field
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+  return /^[A-Za-z]/.test(name) ? name : `Type${name}`;
+}
+
+/**
+ * Checks whether an object has the shape of a known type
+ */
+function matchesKnownType(value: Record<string, unknown>, name: string): boolean {
+  const known = KNOWN_TYPES[name];
+  if (!known.required.every((key) => key in value)) {
+    return false;
+  }
+
+  if (known.discriminator) {
+    const [key, expected] = known.discriminator;
+    return value[key] === expected;
+  }
+
+  return true;
+}
+
+/**
+ * Quotes a property name if it isn't a valid identifier
+ */
+function formatPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Infers TypeScript interfaces from a value received from the Bot API
+ */
+class InterfaceInferrer {
+  readonly interfaces = new Map<string, InferredInterface>();
+
+  /**
+   * Picks the interface name for an object found in a field
+   */
+  private nameFor(value: Record<string, unknown>, field: string, isElement: boolean): string {
+    // Prefer the types the field is known to hold
+    for (const candidate of FIELD_HINTS[field] ?? []) {
+      if (matchesKnownType(value, candidate)) {
+        return candidate;
+      }
+    }
+
+    // Otherwise look for a known type with a distinctive shape
+    for (const [candidate, known] of Object.entries(KNOWN_TYPES)) {
+      if ((known.required.length >= 3 || known.discriminator) && matchesKnownType(value, candidate)) {
+        return candidate;
+      }
+    }
+
+    // Name unknown shapes after the field, singular for array elements
+    const singular = isElement && field.length > 3 && field.endsWith('s')
+      ? field.slice(0, -1)
+      : field;
+    return toTypeName(singular);
+  }
+
+  /**
+   * Infers the type expression of a value, registering interfaces on the way
+   *
+   * @param value - The value to describe
+   * @param field - Name of the field holding the value
+   * @param isElement - Whether the value is an element of an array field
+   */
+  inferType(value: unknown, field: string, isElement = false): string {
+    if (value === null) {
+      return 'null';
+    }
+
+    if (Array.isArray(value)) {
+      const elementTypes = new Set(value.map((element) => this.inferType(element, field, true)));
+      if (elementTypes.size === 0) {
+        return 'unknown[]';
+      }
+
+      const element = [...elementTypes].join(' | ');
+      return elementTypes.size > 1 ? `(${element})[]` : `${element}[]`;
+    }
+
+    if (typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const name = this.nameFor(record, field, isElement);
+      this.addSample(name, record);
+      return name;
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return typeof value;
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Merges an object into the interface of the given name.
+   * Fields missing from some of the merged objects become optional.
+   */
+  private addSample(name: string, value: Record<string, unknown>): void {
+    let inferred = this.interfaces.get(name);
+    if (!inferred) {
+      inferred = { known: name in KNOWN_TYPES, samples: 0, fields: new Map() };
+      this.interfaces.set(name, inferred);
+    }
+    inferred.samples++;
+
+    // Discriminators of union variants keep their literal value, e.g. type: "channel"
+    const discriminator = KNOWN_TYPES[name]?.discriminator?.[0];
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      let field = inferred.fields.get(key);
+      if (!field) {
+        field = { types: new Set(), seen: 0 };
+        inferred.fields.set(key, field);
+      }
+      field.seen++;
+      field.types.add(
+        key === discriminator ? JSON.stringify(fieldValue) : this.inferType(fieldValue, key)
+      );
+    }
+  }
+}
+
+/**
+ * Generates a TypeScript interface hierarchy describing a received value.
+ * Shapes matching a Bot API type use the name from grammy_types,
+ * and nested objects of the same type are merged into one interface.
+ *
+ * @param value - The update (or any object) to describe
+ * @param rootName - Interface name for the value itself if it isn't a known type
+ * @returns Paste-ready TypeScript declarations
+ */
+export function generateInterfaces(value: object, rootName = 'Update'): string {
+  const inferrer = new InterfaceInferrer();
+  inferrer.inferType(value, rootName);
+
+  const knownNames: string[] = [];
+  const declarations: string[] = [];
+
+  for (const [name, inferred] of inferrer.interfaces) {
+    if (inferred.known) {
+      knownNames.push(name);
+    }
+
+    const lines = [...inferred.fields].map(([key, field]) => {
+      const optional = field.seen < inferred.samples ? '?' : '';
+      return `  ${formatPropertyName(key)}${optional}: ${[...field.types].join(' | ')};`;
+    });
+
+    declarations.push(`export interface ${name} {\n${lines.join('\n')}\n}`);
+  }
+
+  const header = knownNames.length > 0
+    ? `// Inferred from a received update. These names match grammy_types:\n// ${knownNames.join(', ')}\n\n`
+    : `// Inferred from a received update\n\n`;
+
+  return header + declarations.join('\n\n');
+}
@@ -0,0 +1,96 @@
+import { BaseContext, Message, Update } from "./deps.ts";
+
+/**
+ * Kinds of updates Telegram can send, e.g. 'message' or 'callback_query'
+ */
+export type UpdateKind = Exclude<keyof Update, 'update_id'>;
+
+/**
+ * Get the kind of an update from the single payload field it carries
+ */
+export function getUpdateKind(update: Update): UpdateKind | null {
+  const kind = Object.keys(update).find((key) => key !== 'update_id');
+  return (kind as UpdateKind | undefined) ?? null;
+}
+
+/**
+ * Get the message carried by an update, if it carries one directly
+ */
+export function getUpdateMessage(update: Update): Message | undefined {
+  return update.message ??
+    update.edited_message ??
+    update.channel_post ??
+    update.edited_channel_post ??
+    update.business_message ??
+    update.edited_business_message;
+}
+
+/**
+ * Wraps a message, e.g. the one a command replies to, in the update it would arrive in:
+ * a channel post if it was posted in a channel, a message otherwise.
+ * Messages outside of channels always have a sender, one without gets an empty update.
+ */
+export function createMessageUpdate(updateId: number, message: Message): Update {
+  const { chat, from } = message;
+  if (chat.type === 'channel') {
+    return { update_id: updateId, channel_post: { ...message, chat } };
+  }
+  if (from === undefined) {
+    return { update_id: updateId };
+  }
+  return { update_id: updateId, message: { ...message, chat, from } };
+}
+
+/**
+ * Get the ID of the user who caused an update, including poll answers
+ * which aren't covered by `ctx.from`
+ */
+export function getUpdateAuthor(ctx: BaseContext): number | undefined {
+  return ctx.from?.id ?? ctx.pollAnswer?.user?.id;
+}
+
+/**
+ * Get the ID of the user who caused an update from the update alone,
+ * for formatting updates without a context
+ */
+export function getUpdateSender(update: Update): number | undefined {
+  const kind = getUpdateKind(update);
+  const payload = kind ? update[kind] as { from?: { id: number }; user?: { id: number } } : undefined;
+  return payload?.from?.id ?? payload?.user?.id;
+}
+
+/**
+ * Get the chat an inspection of the current update should be sent to
+ *
+ * - Chat updates (messages, channel posts, reactions, join requests) go to their chat
+ * - Business messages go to the business account owner's chat with the bot,
+ *   so customers never see them
+ * - Updates without a chat (inline queries, poll answers, inline callback queries)
+ *   go to the user's DM
+ *
+ * @returns The chat ID, or undefined if there is nobody to reply to
+ */
+export async function getReplyChatId(ctx: BaseContext): Promise<number | undefined> {
+  // Business updates are answered in the owner's private chat
+  const businessConnectionId = ctx.businessConnectionId;
+  if (businessConnectionId) {
+    if (ctx.businessConnection) {
+      return ctx.businessConnection.user_chat_id;
+    }
+
+    try {
+      const connection = await ctx.api.getBusinessConnection(businessConnectionId);
+      return connection.user_chat_id;
+    } catch (error) {
+      console.error("Error getting business connection:", error);
+      return undefined;
+    }
+  }
+
+  // Anonymous poll answers have a voter chat instead of a user
+  if (ctx.pollAnswer) {
+    return ctx.pollAnswer.user?.id ?? ctx.pollAnswer.voter_chat?.id;
+  }
+
+  return ctx.chat?.id ?? ctx.from?.id;
+}
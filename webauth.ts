@@ -0,0 +1,188 @@
+/**
+ * Where signed authentication data comes from
+ * - 'web_app': initData of a Mini App
+ * - 'login_widget': Data the Telegram Login Widget passes to a website
+ */
+export type AuthDataKind = 'web_app' | 'login_widget';
+
+/**
+ * The result of verifying authentication data
+ */
+export interface AuthDataCheck {
+  /**
+   * Where the data comes from
+   */
+  kind: AuthDataKind;
+
+  /**
+   * Whether the hash matches the data and the bot token
+   */
+  valid: boolean;
+
+  /**
+   * When the data was signed (Unix time), if it says
+   */
+  authDate?: number;
+
+  /**
+   * Whether auth_date is recent enough to accept the data
+   */
+  fresh: boolean;
+
+  /**
+   * The fields except the hash, with user, receiver and chat parsed from JSON
+   */
+  fields: Record<string, unknown>;
+
+  /**
+   * Problems found besides an invalid hash, e.g. a missing auth_date
+   */
+  problems: string[];
+}
+
+/**
+ * Maximum age of auth_date accepted as fresh, in seconds
+ */
+export const MAX_AUTH_AGE = 24 * 60 * 60;
+
+/**
+ * initData fields that hold JSON objects
+ */
+const JSON_FIELDS = new Set(['user', 'receiver', 'chat']);
+
+/**
+ * Fields only a Mini App's initData has
+ */
+const WEB_APP_FIELDS = ['query_id', 'user', 'receiver', 'chat', 'chat_type', 'chat_instance', 'start_param'];
+
+/**
+ * Computes HMAC-SHA-256
+ */
+async function hmacSha256(key: Uint8Array<ArrayBuffer>, data: string): Promise<Uint8Array<ArrayBuffer>> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data)));
+}
+
+/**
+ * Formats bytes as lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compares two strings in time independent of where they differ,
+ * for checking secrets and signatures
+ */
+export function constantTimeEquals(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Parses authentication data: an initData query string (also inside a Mini App URL
+ * fragment), or Login Widget data as a query string or a JSON object
+ *
+ * @throws An error if the input is neither
+ */
+export function parseAuthData(input: string): { kind: AuthDataKind; params: Map<string, string> } {
+  const text = input.trim();
+  const params = new Map<string, string>();
+
+  if (text.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The data looks like JSON but can\'t be parsed');
+    }
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Login Widget data must be a JSON object');
+    }
+    for (const [key, value] of Object.entries(data)) {
+      params.set(key, String(value));
+    }
+    return { kind: 'login_widget', params };
+  }
+
+  // A Mini App URL carries initData in its fragment as tgWebAppData
+  let query = text.slice(text.indexOf('#') + 1).replace(/^\?/, '');
+  const fragment = new URLSearchParams(query);
+  if (fragment.has('tgWebAppData')) {
+    query = fragment.get('tgWebAppData')!;
+  }
+
+  for (const [key, value] of new URLSearchParams(query)) {
+    params.set(key, value);
+  }
+  if (!params.has('hash')) {
+    throw new Error('The data has no hash field, so it isn\'t initData or Login Widget data');
+  }
+
+  const kind = WEB_APP_FIELDS.some((field) => params.has(field)) ? 'web_app' : 'login_widget';
+  return { kind, params };
+}
+
+/**
+ * Verifies initData or Login Widget data against a bot token without calling Telegram.
+ *
+ * Both sign the fields except the hash, sorted and joined as key=value lines.
+ * initData is signed with HMAC-SHA-256(key "WebAppData", token) as key,
+ * Login Widget data with SHA-256(token).
+ *
+ * @param input - The data as pasted, see parseAuthData
+ * @param token - Token of the bot the data should be signed for
+ * @param now - The current time in milliseconds
+ * @throws An error if the input can't be parsed
+ */
+export async function verifyAuthData(input: string, token: string, now = Date.now()): Promise<AuthDataCheck> {
+  const { kind, params } = parseAuthData(input);
+  const hash = params.get('hash') ?? '';
+  const problems: string[] = [];
+
+  const dataCheckString = [...params]
+    .filter(([key]) => key !== 'hash')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
+  const secretKey = kind === 'web_app'
+    ? await hmacSha256(new TextEncoder().encode('WebAppData'), token)
+    : new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+  const expected = toHex(await hmacSha256(secretKey, dataCheckString));
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of params) {
+    if (key === 'hash') {
+      continue;
+    }
+    if (JSON_FIELDS.has(key)) {
+      try {
+        fields[key] = JSON.parse(value);
+        continue;
+      } catch {
+        problems.push(`${key} isn't valid JSON`);
+      }
+    }
+    fields[key] = value;
+  }
+
+  const authDate = params.has('auth_date') ? Number(params.get('auth_date')) : undefined;
+  if (authDate === undefined || !Number.isInteger(authDate)) {
+    problems.push('auth_date is missing or not a Unix time');
+  } else if (authDate > now / 1000 + 60) {
+    problems.push('auth_date is in the future');
+  }
+
+  return {
+    kind,
+    valid: constantTimeEquals(hash.toLowerCase(), expected),
+    authDate: Number.isInteger(authDate) ? authDate : undefined,
+    fresh: authDate !== undefined && Number.isInteger(authDate) && now / 1000 - authDate <= MAX_AUTH_AGE,
+    fields,
+    problems
+  };
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "./dev_deps.ts";
+import { verifyAuthData } from "./webauth.ts";
+
+/**
+ * Token the samples are signed with
+ */
+const TOKEN = '123456789:AAF-test_token_for_signature_checks';
+
+/**
+ * When the samples were signed, in milliseconds
+ */
+const SIGNED_AT = 1662771648 * 1000;
+
+/**
+ * Mini App initData, signed with HMAC-SHA-256 keyed by HMAC-SHA-256("WebAppData", TOKEN)
+ */
+const INIT_DATA = 'query_id=AAHdF6IQAAAAAN0XohDhrOrc' +
+  '&user=%7B%22id%22%3A279058397%2C%22first_name%22%3A%22Vladislav%22%2C%22last_name%22%3A%22Kibenko%22' +
+  '%2C%22username%22%3A%22vdkfrost%22%2C%22language_code%22%3A%22ru%22%2C%22is_premium%22%3Atrue' +
+  '%2C%22allows_write_to_pm%22%3Atrue%7D' +
+  '&auth_date=1662771648&hash=b21f381f9ee601c3445a9e1f266257ca16e6d475b30a64f88f6930f4c22beb1d';
+
+/**
+ * Login Widget data, signed with HMAC-SHA-256 keyed by SHA-256(TOKEN)
+ */
+const LOGIN_WIDGET_DATA = {
+  id: 279058397,
+  first_name: 'Vladislav',
+  username: 'vdkfrost',
+  photo_url: 'https://t.me/i/userpic/320/vdkfrost.jpg',
+  auth_date: 1662771648,
+  hash: '27c59cac17b6d68b68417d5552bf1168986179adaae75cbcdecaa5dd57863f4f'
+};
+
+Deno.test("verifyAuthData accepts signed initData", async () => {
+  const check = await verifyAuthData(INIT_DATA, TOKEN, SIGNED_AT);
+
+  assertEquals(check.kind, 'web_app');
+  assertEquals(check.valid, true);
+  assertEquals(check.fresh, true);
+  assertEquals(check.authDate, 1662771648);
+  assertEquals((check.fields.user as { id: number }).id, 279058397);
+  assertEquals(check.problems, []);
+});
+
+Deno.test("verifyAuthData accepts initData inside a Mini App URL", async () => {
+  const url = `https://example.com/app#tgWebAppData=${encodeURIComponent(INIT_DATA)}&tgWebAppVersion=7.0`;
+  assertEquals((await verifyAuthData(url, TOKEN, SIGNED_AT)).valid, true);
+});
+
+Deno.test("verifyAuthData rejects initData with a changed field", async () => {
+  const changed = INIT_DATA.replace('auth_date=1662771648', 'auth_date=1662771649');
+  assertEquals((await verifyAuthData(changed, TOKEN, SIGNED_AT)).valid, false);
+});
+
+Deno.test("verifyAuthData rejects initData signed for another bot", async () => {
+  assertEquals((await verifyAuthData(INIT_DATA, '987654321:AAF-another_token', SIGNED_AT)).valid, false);
+});
+
+Deno.test("verifyAuthData accepts signed Login Widget data", async () => {
+  const check = await verifyAuthData(JSON.stringify(LOGIN_WIDGET_DATA), TOKEN, SIGNED_AT);
+
+  assertEquals(check.kind, 'login_widget');
+  assertEquals(check.valid, true);
+  assertEquals(check.fields.username, 'vdkfrost');
+});
+
+Deno.test("verifyAuthData accepts Login Widget data as a query string", async () => {
+  const query = new URLSearchParams(Object.entries(LOGIN_WIDGET_DATA).map(([key, value]) => [key, String(value)]));
+  assertEquals((await verifyAuthData(query.toString(), TOKEN, SIGNED_AT)).valid, true);
+});
+
+Deno.test("verifyAuthData rejects Login Widget data with a changed field", async () => {
+  const changed = JSON.stringify({ ...LOGIN_WIDGET_DATA, username: 'someone_else' });
+  assertEquals((await verifyAuthData(changed, TOKEN, SIGNED_AT)).valid, false);
+});
+
+Deno.test("verifyAuthData reports data older than a day as not fresh", async () => {
+  const check = await verifyAuthData(INIT_DATA, TOKEN, SIGNED_AT + 2 * 24 * 60 * 60 * 1000);
+
+  assertEquals(check.valid, true);
+  assertEquals(check.fresh, false);
+});
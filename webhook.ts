@@ -0,0 +1,164 @@
+import { API_CONSTANTS } from "./deps.ts";
+import { UpdateKind } from "./updates.ts";
+
+/**
+ * Webhook registration and request handling settings
+ */
+export interface WebhookConfig {
+  /**
+   * Public HTTPS URL to register with setWebhook, the webhook is left as it is if missing
+   */
+  url?: string;
+
+  /**
+   * Secret Telegram sends in X-Telegram-Bot-Api-Secret-Token, requests without it are rejected
+   */
+  secretToken?: string;
+
+  /**
+   * Maximum number of simultaneous connections Telegram opens (1-100)
+   */
+  maxConnections?: number;
+
+  /**
+   * Whether to drop updates that arrived while no webhook was set
+   */
+  dropPendingUpdates: boolean;
+
+  /**
+   * Whether to delete the webhook when the server is stopped
+   */
+  deleteOnShutdown: boolean;
+
+  /**
+   * Largest request body accepted, in bytes
+   */
+  maxBodySize: number;
+
+  /**
+   * Bearer token required by POST /inspect, the endpoint is off if missing
+   */
+  inspectToken?: string;
+}
+
+/**
+ * Default largest request body, far above the size of any update
+ */
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Reads a boolean environment variable
+ *
+ * @throws An error if it is set to something other than true, false, 1 or 0
+ */
+function getBooleanEnv(name: string): boolean {
+  const value = Deno.env.get(name)?.toLowerCase();
+  if (value === undefined || value === '' || value === 'false' || value === '0') {
+    return false;
+  }
+  if (value === 'true' || value === '1') {
+    return true;
+  }
+  throw new Error(`${name} must be true or false, got "${value}"`);
+}
+
+/**
+ * Reads an integer environment variable within bounds
+ *
+ * @throws An error if it isn't a whole number between min and max
+ */
+function getIntegerEnv(name: string, min: number, max: number): number | undefined {
+  const value = Deno.env.get(name);
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${name} must be a whole number from ${min} to ${max}, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Reads the update types to receive from ALLOWED_UPDATES, a comma-separated list.
+ * Defaults to all of them, as Telegram leaves out chat_member and reactions unless asked.
+ *
+ * @throws An error naming unknown update types
+ */
+export function getAllowedUpdates(): UpdateKind[] {
+  const value = Deno.env.get("ALLOWED_UPDATES");
+  if (!value) {
+    return [...API_CONSTANTS.ALL_UPDATE_TYPES];
+  }
+
+  const kinds = value.split(',').map((kind) => kind.trim()).filter(Boolean);
+  const known: readonly string[] = API_CONSTANTS.ALL_UPDATE_TYPES;
+  const unknown = kinds.filter((kind) => !known.includes(kind));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown update types in ALLOWED_UPDATES: ${unknown.join(', ')}`);
+  }
+  return kinds as UpdateKind[];
+}
+
+/**
+ * Reads the webhook configuration from the WEBHOOK_* environment variables
+ *
+ * @throws An error describing the first invalid setting
+ */
+export function getWebhookConfig(): WebhookConfig {
+  const url = Deno.env.get("WEBHOOK_URL") || undefined;
+  if (url !== undefined && !url.startsWith('https://')) {
+    throw new Error('WEBHOOK_URL must be an https:// URL');
+  }
+
+  // Telegram only accepts 1-256 characters of A-Z, a-z, 0-9, _ and -
+  const secretToken = Deno.env.get("WEBHOOK_SECRET") || undefined;
+  if (secretToken !== undefined && !/^[A-Za-z0-9_-]{1,256}$/.test(secretToken)) {
+    throw new Error('WEBHOOK_SECRET must be 1-256 characters of A-Z, a-z, 0-9, _ and -');
+  }
+
+  return {
+    url,
+    secretToken,
+    maxConnections: getIntegerEnv("WEBHOOK_MAX_CONNECTIONS", 1, 100),
+    dropPendingUpdates: getBooleanEnv("WEBHOOK_DROP_PENDING_UPDATES"),
+    deleteOnShutdown: getBooleanEnv("WEBHOOK_DELETE_ON_SHUTDOWN"),
+    maxBodySize: getIntegerEnv("WEBHOOK_MAX_BODY_SIZE", 1024, 100 * 1024 * 1024) ?? DEFAULT_MAX_BODY_SIZE,
+    inspectToken: Deno.env.get("INSPECT_TOKEN") || undefined
+  };
+}
+
+/**
+ * Reads a request body, stopping as soon as it exceeds the limit
+ *
+ * @returns The body, or undefined if it is larger than the limit
+ */
+export async function readLimitedBody(req: Request, limit: number): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  // Reject early when the client says how large the body is
+  const declared = Number(req.headers.get('content-length'));
+  if (declared > limit) {
+    return undefined;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (req.body) {
+    for await (const chunk of req.body) {
+      size += chunk.length;
+      // Leaving the loop cancels the rest of the stream
+      if (size > limit) {
+        return undefined;
+      }
+      chunks.push(chunk);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}